@@ -6,28 +6,137 @@
 
 "use client";
 
-import { useEffect, useMemo, useRef, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import {
   DEFAULT_WIDTH,
   DEFAULT_HEIGHT,
   FPS,
   POINT_RADIUS,
   ALPHA_SLIDER_DEFAULT,
+  EPSILON,
+  BETA_SLIDER_DEFAULT,
+  BETA_SLIDER_STEP,
   GRAPH_MODE_OPTIONS,
   MIN_CANVAS_DIMENSION,
   HIT_DISTANCE_MULTIPLIER,
+  DEFAULT_SCENE_OVERLAYS,
+  WEIGHTED_MODES,
+  RASTER_MODES,
+  ORDER_K_DEFAULT,
+  ORDER_K_MAX,
+  LLOYD_THRESHOLD_DEFAULT,
+  LLOYD_ENERGY_HISTORY,
+  STIPPLE_COUNT_DEFAULT,
+  DEFAULT_DISTANCE_METRIC,
+  DISTANCE_METRIC_OPTIONS,
+  MINKOWSKI_P_MIN,
+  MINKOWSKI_P_MAX,
+  DISTANCE_FIELD_COLOR_STOPS,
+  ISOLINE_SPACING,
+  MEDIAL_AXIS_LAMBDA_DEFAULT,
+  MEDIAL_AXIS_LAMBDA_MAX,
+  MEDIAL_AXIS_HOVER_RADIUS,
+  STIPPLE_COUNT_MAX,
+  STIPPLE_MAX_ITERATIONS,
+  STIPPLE_THRESHOLD,
+  MESH_MIN_ANGLE_DEFAULT,
+  MESH_MIN_ANGLE_MAX,
+  MESH_MAX_AREA_DEFAULT,
+  MESH_MAX_AREA_MIN,
+  MESH_MAX_AREA_MAX,
+  MESH_MAX_VERTICES,
+  MESH_STEPS_PER_FRAME,
+  MESH_HISTOGRAM_BINS,
+  PERSISTENCE_MAX_BARS,
+  ALPHA_COMPONENTS_LISTED,
+  ALPHA_TARGET_COMPONENTS_DEFAULT,
+  ADAPTIVE_ALPHA_NEIGHBOURS,
+  ADAPTIVE_ALPHA_MULTIPLIER_MAX,
+  CHI_LAMBDA_DEFAULT,
+  CONCAVE_K_DEFAULT,
+  CONCAVE_K_MAX,
 } from "@/lib/constants";
 import {
   clamp,
   sliderToRadius,
   radiusToSlider,
+  sliderToBeta,
 } from "@/lib/math-utils";
 import {
   computeDerivedStructures,
   createInitialPoints,
 } from "@/lib/geometry-algorithms";
-import { drawScene, getAverageColorInPolygon } from "@/lib/canvas-utils";
-import { Point, GraphMode, DragState, GhostDragState, CanvasSize } from "@/lib/types";
+import { findKNearestSites } from "@/lib/order-k-voronoi";
+import {
+  distanceFieldToGray16,
+  paintDistanceField,
+} from "@/lib/distance-field";
+import { encodeGray16Png } from "@/lib/png-encoder";
+import { findMedialAxisVertex } from "@/lib/medial-axis";
+import {
+  computePointSetPersistence,
+  selectAlphaRadius,
+} from "@/lib/alpha-filtration";
+import { alphaShapeToGeoJson } from "@/lib/alpha-polygons";
+import { findAdaptiveTriangle } from "@/lib/adaptive-alpha";
+import { convexLayerToGeoJson } from "@/lib/convex-layers";
+import {
+  computeNearestSiteLabels,
+  countLabelDifferences,
+  siteDistanceForMode,
+  sitesToGeoJson,
+} from "@/lib/raster-voronoi";
+import { createDensityMap, lloydStep } from "@/lib/lloyd-relaxation";
+import {
+  computeMeshQuality,
+  createRefinementMesh,
+  histogram,
+  refineMeshStep,
+} from "@/lib/mesh-refinement";
+import {
+  sampleStipplesFromDensity,
+  stippleLloydStep,
+  stipplesToSvg,
+} from "@/lib/stippling";
+import {
+  drawScene,
+  getAverageColorInPolygon,
+  averageImageColorPerLabel,
+  paintLabelMap,
+  drawStipples,
+} from "@/lib/canvas-utils";
+import {
+  Point,
+  GraphMode,
+  DragState,
+  GhostDragState,
+  WeightDragState,
+  ConstraintDragState,
+  CanvasSize,
+  DerivedStructures,
+  SceneOverlays,
+  BetaSkeletonVariant,
+  DistanceMetric,
+  RasterBackend,
+  DistanceFieldKind,
+  CircleDomain,
+  AlphaStrategy,
+  ConcaveHullAlgorithm,
+  EdgeIndex,
+  LocalScaleEstimator,
+  MeshBoundary,
+  ModeParameters,
+  PersistenceInterval,
+  RefinementMesh,
+  RGBColor,
+} from "@/lib/types";
+
+/**
+ * CSS gradient of the distance colour map, used by the legend
+ */
+const distanceLegendGradient = `linear-gradient(to right, ${DISTANCE_FIELD_COLOR_STOPS.map(
+  ({ r, g, b }) => `rgb(${r}, ${g}, ${b})`
+).join(", ")})`;
 
 /**
  * VoronoiCanvas - Main interactive canvas component
@@ -49,16 +158,19 @@ export const VoronoiCanvas = () => {
   const fileInputRef = useRef<HTMLInputElement | null>(null);
   const pointsRef = useRef<Point[]>([]);
   const modeRef = useRef<GraphMode>("voronoi");
-  const derivedRef = useRef({
-    voronoiCells: [] as Array<Array<[number, number]>>,
-    graphEdges: [] as Array<[number, number]>,
-    alphaTriangles: [] as Array<[number, number, number]>,
+  const derivedRef = useRef<DerivedStructures>({
+    voronoiCells: [],
+    graphEdges: [],
+    alphaTriangles: [],
   });
+  const overlaysRef = useRef<SceneOverlays>(DEFAULT_SCENE_OVERLAYS);
   const alphaRadiusRef = useRef<number>(0);
   const ghostPointRef = useRef<{ x: number; y: number } | null>(null);
   const backgroundImageRef = useRef<ImageData | null>(null);
   const dragRef = useRef<DragState | null>(null);
   const ghostDragRef = useRef<GhostDragState | null>(null);
+  const weightDragRef = useRef<WeightDragState | null>(null);
+  const constraintDragRef = useRef<ConstraintDragState | null>(null);
   const idCounterRef = useRef<number>(GRAPH_MODE_OPTIONS.length); // Start after initial points
   const animationRef = useRef<number | null>(null);
   const lastFrameRef = useRef<number | null>(null);
@@ -79,10 +191,76 @@ export const VoronoiCanvas = () => {
   );
   const [mode, setMode] = useState<GraphMode>("voronoi");
   const [alphaSlider, setAlphaSlider] = useState<number>(ALPHA_SLIDER_DEFAULT);
+  const [betaSlider, setBetaSlider] = useState<number>(BETA_SLIDER_DEFAULT);
+  const [betaVariant, setBetaVariant] = useState<BetaSkeletonVariant>("lune");
+  const [orderK, setOrderK] = useState<number>(ORDER_K_DEFAULT);
+  const [metric, setMetric] = useState<DistanceMetric>(
+    DEFAULT_DISTANCE_METRIC
+  );
+  const [distanceFieldKind, setDistanceFieldKind] =
+    useState<DistanceFieldKind>("none");
+  const [showMedialAxis, setShowMedialAxis] = useState<boolean>(false);
+  const [medialAxisLambda, setMedialAxisLambda] = useState<number>(
+    MEDIAL_AXIS_LAMBDA_DEFAULT
+  );
+  const [circleDomain, setCircleDomain] = useState<CircleDomain | null>(
+    null
+  );
+  const [constraints, setConstraints] = useState<Array<[number, number]>>(
+    []
+  );
+  const [rasterBackend, setRasterBackend] =
+    useState<RasterBackend>("bruteforce");
+  const [backendComparison, setBackendComparison] = useState<{
+    labels: Int32Array;
+    differences: number;
+  } | null>(null);
+  const [isRelaxing, setIsRelaxing] = useState<boolean>(false);
+  const [relaxThreshold, setRelaxThreshold] = useState<number>(
+    LLOYD_THRESHOLD_DEFAULT
+  );
+  const [relaxUseDensity, setRelaxUseDensity] = useState<boolean>(false);
+  const [relaxEnergies, setRelaxEnergies] = useState<number[]>([]);
+  const [relaxIterations, setRelaxIterations] = useState<number>(0);
+  const [stippleCount, setStippleCount] = useState<number>(
+    STIPPLE_COUNT_DEFAULT
+  );
+  const [isStippling, setIsStippling] = useState<boolean>(false);
+  const [stippleIterations, setStippleIterations] = useState<number>(0);
+  const [meshBoundary, setMeshBoundary] = useState<MeshBoundary>("hull");
+  const [meshMinAngle, setMeshMinAngle] = useState<number>(
+    MESH_MIN_ANGLE_DEFAULT
+  );
+  const [meshMaxArea, setMeshMaxArea] = useState<number>(
+    MESH_MAX_AREA_DEFAULT
+  );
+  const [meshRun, setMeshRun] = useState<{
+    boundary: EdgeIndex[];
+    mesh: RefinementMesh;
+  } | null>(null);
+  const [isMeshing, setIsMeshing] = useState<boolean>(false);
+  const [showPersistence, setShowPersistence] = useState<boolean>(false);
+  const [localScale, setLocalScale] = useState<LocalScaleEstimator>("knn");
+  const [concaveAlgorithm, setConcaveAlgorithm] =
+    useState<ConcaveHullAlgorithm>("chi");
+  const [chiLambda, setChiLambda] = useState<number>(CHI_LAMBDA_DEFAULT);
+  const [concaveK, setConcaveK] = useState<number>(CONCAVE_K_DEFAULT);
+  const [alphaTargetComponents, setAlphaTargetComponents] = useState<number>(
+    ALPHA_TARGET_COMPONENTS_DEFAULT
+  );
+  const [selectedInterval, setSelectedInterval] = useState<{
+    intervals: PersistenceInterval[];
+    interval: PersistenceInterval;
+  } | null>(null);
+  const [hoverPosition, setHoverPosition] = useState<{
+    x: number;
+    y: number;
+  } | null>(null);
   const [ghostPoint, setGhostPoint] = useState<{ x: number; y: number } | null>(
     null
   );
   const [backgroundImage, setBackgroundImage] = useState<ImageData | null>(null);
+  const [overlays, setOverlays] = useState<SceneOverlays>(DEFAULT_SCENE_OVERLAYS);
 
   // ==========================================================================
   // State for Random Seed Control
@@ -117,14 +295,372 @@ export const VoronoiCanvas = () => {
   // ============================================================================
   const isAlphaMode =
     mode === "alpha-shape" || mode === "alpha-complex";
+  const isAdaptiveAlpha = mode === "alpha-adaptive";
+  const usesAlphaSlider =
+    isAlphaMode ||
+    isAdaptiveAlpha ||
+    (mode === "mesh" && meshBoundary === "alpha");
+  const isVoronoiFamily =
+    mode === "voronoi" || mode === "power" || RASTER_MODES.includes(mode);
   const alphaRadius = sliderToRadius(alphaSlider);
+  const alphaMultiplier = alphaSlider * ADAPTIVE_ALPHA_MULTIPLIER_MAX;
+  const beta = sliderToBeta(betaSlider);
+  const betaLabel = Number.isFinite(beta) ? beta.toFixed(2) : "∞";
+
+  // The distance layer reads F1 and F2 from the exact pass, so it always
+  // runs brute force whatever backend is selected
+  const isDistanceLayerOn =
+    mode === "voronoi-bruteforce" && distanceFieldKind !== "none";
+  const effectiveRasterBackend: RasterBackend = isDistanceLayerOn
+    ? "bruteforce"
+    : rasterBackend;
+
+  const maxOrderK = Math.max(1, Math.min(ORDER_K_MAX, points.length - 1));
+  const effectiveOrderK = Math.min(orderK, maxOrderK);
+
+  const modeParameters = useMemo<ModeParameters>(
+    () => ({
+      beta,
+      betaVariant,
+      orderK: effectiveOrderK,
+      metric,
+      rasterBackend: effectiveRasterBackend,
+      distanceField: distanceFieldKind,
+      medialAxisLambda: isAlphaMode && showMedialAxis ? medialAxisLambda : null,
+      circleDomain: mode === "stipple" ? null : circleDomain,
+      constraints,
+      meshBoundary,
+      localScale,
+      alphaMultiplier,
+      concaveAlgorithm,
+      chiLambda,
+      concaveK,
+    }),
+    [
+      beta,
+      betaVariant,
+      effectiveOrderK,
+      metric,
+      effectiveRasterBackend,
+      distanceFieldKind,
+      isAlphaMode,
+      showMedialAxis,
+      medialAxisLambda,
+      mode,
+      circleDomain,
+      constraints,
+      meshBoundary,
+      localScale,
+      alphaMultiplier,
+      concaveAlgorithm,
+      chiLambda,
+      concaveK,
+    ]
+  );
 
   const derived = useMemo(
     () =>
-      computeDerivedStructures(points, size.width, size.height, alphaRadius, mode),
-    [points, size.width, size.height, alphaRadius, mode]
+      computeDerivedStructures(
+        points,
+        size.width,
+        size.height,
+        alphaRadius,
+        mode,
+        modeParameters
+      ),
+    [points, size.width, size.height, alphaRadius, mode, modeParameters]
   );
 
+  // ============================================================================
+  // Lloyd Relaxation
+  // ============================================================================
+  const relaxDensity = useMemo(
+    () =>
+      relaxUseDensity && backgroundImage
+        ? createDensityMap(backgroundImage, size.width, size.height)
+        : null,
+    [relaxUseDensity, backgroundImage, size.width, size.height]
+  );
+
+  /**
+   * Moves every site to its cell centroid once
+   * The dragged point is pinned, and points changed meanwhile are kept
+   * @returns Largest displacement of the iteration
+   */
+  const runRelaxationStep = useCallback((): number => {
+    const pinned = new Set<number>();
+    if (dragRef.current) {
+      pinned.add(dragRef.current.index);
+    }
+    const result = lloydStep(points, derived.voronoiCells, pinned, relaxDensity);
+    setRelaxEnergies((previous) =>
+      [...previous, result.energy].slice(-LLOYD_ENERGY_HISTORY)
+    );
+    setRelaxIterations((previous) => previous + 1);
+    setPoints((previous) => {
+      const next = previous.map((point, index) =>
+        pinned.has(index) || point !== points[index]
+          ? point
+          : result.points[index] ?? point
+      );
+      pointsRef.current = next;
+      return next;
+    });
+    return result.maxDisplacement;
+  }, [points, derived, relaxDensity]);
+
+  // Each new diagram schedules the next iteration, at most once per frame
+  useEffect(() => {
+    if (!isRelaxing || mode !== "voronoi") {
+      return;
+    }
+    const timeout = window.setTimeout(() => {
+      if (runRelaxationStep() < relaxThreshold) {
+        setIsRelaxing(false);
+      }
+    }, 1000 / FPS);
+    return () => window.clearTimeout(timeout);
+  }, [isRelaxing, mode, relaxThreshold, runRelaxationStep]);
+
+  const relaxEnergyPath = useMemo(() => {
+    if (relaxEnergies.length < 2) {
+      return "";
+    }
+    const min = Math.min(...relaxEnergies);
+    const max = Math.max(...relaxEnergies);
+    const range = max - min || 1;
+    return relaxEnergies
+      .map((energy, index) => {
+        const x = (index / (relaxEnergies.length - 1)) * 100;
+        const y = 28 - ((energy - min) / range) * 26;
+        return `${x.toFixed(2)},${y.toFixed(2)}`;
+      })
+      .join(" ");
+  }, [relaxEnergies]);
+
+  const hoveredAdaptiveTriangle =
+    derived.adaptiveTriangles && hoverPosition !== null
+      ? findAdaptiveTriangle(
+          points,
+          derived.adaptiveTriangles,
+          hoverPosition.x,
+          hoverPosition.y
+        )
+      : null;
+
+  const highlightedMedialVertex =
+    overlays.highlightedMedialVertex === null
+      ? null
+      : derived.medialAxis?.vertices[overlays.highlightedMedialVertex] ?? null;
+
+  // ============================================================================
+  // Jump Flooding Comparison
+  // ============================================================================
+  // The comparison is only shown while it matches the displayed label map
+  const jfaDifferences =
+    backendComparison &&
+    backendComparison.labels === derived.rasterLabels
+      ? backendComparison.differences
+      : null;
+
+  const handleCompareBackends = () => {
+    if (!derived.rasterLabels) return;
+    const reference = computeNearestSiteLabels(
+      points,
+      size.width,
+      size.height,
+      siteDistanceForMode(mode, metric)
+    );
+    setBackendComparison({
+      labels: derived.rasterLabels,
+      differences: countLabelDifferences(reference, derived.rasterLabels),
+    });
+  };
+
+  // ============================================================================
+  // Weighted Voronoi Stippling
+  // ============================================================================
+  const stippleDensity = useMemo(
+    () =>
+      mode === "stipple" && backgroundImage
+        ? createDensityMap(backgroundImage, size.width, size.height)
+        : null,
+    [mode, backgroundImage, size.width, size.height]
+  );
+
+  const handleGenerateStipples = () => {
+    if (!stippleDensity) return;
+    setOverlays((previous) => ({
+      ...previous,
+      stipples: sampleStipplesFromDensity(stippleDensity, stippleCount),
+    }));
+    setStippleIterations(0);
+    setIsStippling(true);
+  };
+
+  // Each iteration result schedules the next one, at most once per frame
+  useEffect(() => {
+    if (!isStippling || mode !== "stipple" || !stippleDensity) {
+      return;
+    }
+    const timeout = window.setTimeout(() => {
+      const result = stippleLloydStep(overlays.stipples, stippleDensity);
+      setOverlays((previous) => ({ ...previous, stipples: result.stipples }));
+      setStippleIterations((previous) => previous + 1);
+      if (
+        result.maxDisplacement < STIPPLE_THRESHOLD ||
+        stippleIterations + 1 >= STIPPLE_MAX_ITERATIONS
+      ) {
+        setIsStippling(false);
+      }
+    }, 1000 / FPS);
+    return () => window.clearTimeout(timeout);
+  }, [isStippling, mode, stippleDensity, overlays.stipples, stippleIterations]);
+
+  // ============================================================================
+  // Alpha Filtration Persistence
+  // ============================================================================
+  const persistence = useMemo(
+    () =>
+      isAlphaMode && showPersistence && points.length
+        ? computePointSetPersistence(points)
+        : null,
+    [isAlphaMode, showPersistence, points]
+  );
+
+  // The selection is only kept while it belongs to the displayed intervals
+  const highlightedInterval =
+    selectedInterval && selectedInterval.intervals === persistence
+      ? selectedInterval.interval
+      : null;
+
+  const handleSelectInterval = (interval: PersistenceInterval) => {
+    setSelectedInterval(
+      interval === highlightedInterval || !persistence
+        ? null
+        : { intervals: persistence, interval }
+    );
+  };
+
+  const persistenceBars = useMemo(() => {
+    if (!persistence) {
+      return [];
+    }
+    const toSlider = (radius: number) =>
+      Number.isFinite(radius) ? clamp(radiusToSlider(radius), 0, 1) : 1;
+    const lifetime = (interval: PersistenceInterval) =>
+      interval.death - interval.birth;
+    return ([0, 1] as const).flatMap((dimension) =>
+      persistence
+        .filter((interval) => interval.dimension === dimension)
+        // Longest first; essential components (infinite) lead
+        .sort((a, b) =>
+          lifetime(a) === lifetime(b) ? 0 : lifetime(a) > lifetime(b) ? -1 : 1
+        )
+        .slice(0, PERSISTENCE_MAX_BARS)
+        .sort((a, b) => a.birth - b.birth || b.death - a.death)
+        .map((interval) => ({
+          interval,
+          start: toSlider(interval.birth),
+          end: toSlider(interval.death),
+        }))
+    );
+  }, [persistence]);
+
+  const handleAutoAlpha = (strategy: AlphaStrategy) => {
+    if (!points.length) return;
+    const radius = selectAlphaRadius(
+      persistence ?? computePointSetPersistence(points),
+      strategy,
+      alphaTargetComponents
+    );
+    // Nudge above the critical radius so the round trip through the slider
+    // mapping cannot land just below it
+    setAlphaSlider(
+      Number.isFinite(radius)
+        ? clamp(radiusToSlider(radius * (1 + EPSILON)), 0, 1)
+        : 1
+    );
+  };
+
+  const aliveFeatures = persistence
+    ? ([0, 1] as const).map(
+        (dimension) =>
+          persistence.filter(
+            (interval) =>
+              interval.dimension === dimension &&
+              interval.birth <= alphaRadius &&
+              interval.death > alphaRadius
+          ).length
+      )
+    : null;
+
+  // ============================================================================
+  // Delaunay Refinement Mesh
+  // ============================================================================
+  // A mesh is only shown while it was built on the current boundary
+  const mesh =
+    mode === "mesh" && meshRun && meshRun.boundary === derived.graphEdges
+      ? meshRun.mesh
+      : null;
+
+  const sceneOverlays = useMemo<SceneOverlays>(
+    () => ({ ...overlays, mesh, highlightedInterval }),
+    [overlays, mesh, highlightedInterval]
+  );
+
+  /**
+   * Inserts a batch of Steiner points, starting a new mesh when the boundary
+   * changed since the last step
+   * @param steps - Maximum number of insertions
+   * @returns Refined mesh
+   */
+  const runMeshSteps = useCallback(
+    (steps: number): RefinementMesh => {
+      let next = mesh ?? createRefinementMesh(points, derived.graphEdges);
+      for (let step = 0; step < steps && !next.done; step += 1) {
+        next = refineMeshStep(next, meshMinAngle, meshMaxArea, MESH_MAX_VERTICES);
+      }
+      setMeshRun({ boundary: derived.graphEdges, mesh: next });
+      return next;
+    },
+    [mesh, points, derived, meshMinAngle, meshMaxArea]
+  );
+
+  const handleToggleMeshing = () => {
+    if (!isMeshing && mesh?.done) {
+      // New bounds may leave triangles to refine
+      setMeshRun({ boundary: derived.graphEdges, mesh: { ...mesh, done: false } });
+    }
+    setIsMeshing((previous) => !previous);
+  };
+
+  // Each refined mesh schedules the next batch, at most once per frame
+  useEffect(() => {
+    if (!isMeshing || mode !== "mesh") {
+      return;
+    }
+    const timeout = window.setTimeout(() => {
+      if (runMeshSteps(MESH_STEPS_PER_FRAME).done) {
+        setIsMeshing(false);
+      }
+    }, 1000 / FPS);
+    return () => window.clearTimeout(timeout);
+  }, [isMeshing, mode, runMeshSteps]);
+
+  const meshQuality = useMemo(() => {
+    if (!mesh) {
+      return null;
+    }
+    const { minAngles, areas } = computeMeshQuality(mesh);
+    return {
+      triangleCount: minAngles.length,
+      minAngle: minAngles.length ? Math.min(...minAngles) : 0,
+      angleHistogram: histogram(minAngles, MESH_HISTOGRAM_BINS, 0, 60),
+      areaHistogram: histogram(areas, MESH_HISTOGRAM_BINS, 0, meshMaxArea),
+    };
+  }, [mesh, meshMaxArea]);
+
   // ============================================================================
   // Ref Syncing (for use in event handlers)
   // ============================================================================
@@ -152,6 +688,10 @@ export const VoronoiCanvas = () => {
     derivedRef.current = derived;
   }, [derived]);
 
+  useEffect(() => {
+    overlaysRef.current = sceneOverlays;
+  }, [sceneOverlays]);
+
   // ============================================================================
   // Canvas Resize Observer
   // ============================================================================
@@ -267,7 +807,8 @@ export const VoronoiCanvas = () => {
           modeRef.current,
           ghostPointRef.current,
           alphaRadiusRef.current,
-          backgroundImageRef.current
+          backgroundImageRef.current,
+          overlaysRef.current
         );
       }
       animationRef.current = requestAnimationFrame(renderFrame);
@@ -286,7 +827,8 @@ export const VoronoiCanvas = () => {
       modeRef.current,
       ghostPointRef.current,
       alphaRadiusRef.current,
-      backgroundImageRef.current
+      backgroundImageRef.current,
+      overlaysRef.current
     );
     animationRef.current = requestAnimationFrame(renderFrame);
 
@@ -369,6 +911,32 @@ export const VoronoiCanvas = () => {
       const { x, y } = getRelativePosition(event);
       const hitIndex = findPointByPosition(x, y);
 
+      // Alt+drag on a point edits its weight in weighted modes
+      if (
+        hitIndex >= 0 &&
+        event.altKey &&
+        WEIGHTED_MODES.includes(modeRef.current)
+      ) {
+        weightDragRef.current = { pointerId: event.pointerId, index: hitIndex };
+        canvas.setPointerCapture(event.pointerId);
+        return;
+      }
+
+      // Shift+drag from a point draws a constraint segment in CDT mode
+      if (hitIndex >= 0 && event.shiftKey && modeRef.current === "cdt") {
+        const point = pointsRef.current[hitIndex];
+        constraintDragRef.current = {
+          pointerId: event.pointerId,
+          fromId: point.id,
+        };
+        setOverlays((previous) => ({
+          ...previous,
+          constraintPreview: { from: [point.x, point.y], to: [x, y] },
+        }));
+        canvas.setPointerCapture(event.pointerId);
+        return;
+      }
+
       if (hitIndex >= 0) {
         const point = pointsRef.current[hitIndex];
         dragRef.current = {
@@ -397,6 +965,40 @@ export const VoronoiCanvas = () => {
      * Handles pointer move for dragging points
      */
     const handlePointerMove = (event: PointerEvent) => {
+      const constraintDrag = constraintDragRef.current;
+      if (constraintDrag && constraintDrag.pointerId === event.pointerId) {
+        event.preventDefault();
+        const { x, y } = getRelativePosition(event);
+        setOverlays((previous) =>
+          previous.constraintPreview
+            ? {
+                ...previous,
+                constraintPreview: { ...previous.constraintPreview, to: [x, y] },
+              }
+            : previous
+        );
+        return;
+      }
+
+      const weightDrag = weightDragRef.current;
+      if (weightDrag && weightDrag.pointerId === event.pointerId) {
+        event.preventDefault();
+        const { x, y } = getRelativePosition(event);
+        updatePoints((previous) => {
+          const next = previous.slice();
+          const point = next[weightDrag.index];
+          if (!point) {
+            return previous;
+          }
+          next[weightDrag.index] = {
+            ...point,
+            weight: Math.hypot(x - point.x, y - point.y),
+          };
+          return next;
+        });
+        return;
+      }
+
       const dragState = dragRef.current;
       if (!dragState || dragState.pointerId !== event.pointerId) {
         return;
@@ -420,10 +1022,86 @@ export const VoronoiCanvas = () => {
       });
     };
 
+    /**
+     * Tracks the cursor for hover labels (modes with hover information only)
+     */
+    const handleHoverMove = (event: PointerEvent) => {
+      const medialAxis = derivedRef.current.medialAxis;
+      if (medialAxis) {
+        const position = getRelativePosition(event);
+        const vertex = findMedialAxisVertex(
+          medialAxis,
+          position.x,
+          position.y,
+          MEDIAL_AXIS_HOVER_RADIUS
+        );
+        setOverlays((previous) =>
+          previous.highlightedMedialVertex === vertex
+            ? previous
+            : { ...previous, highlightedMedialVertex: vertex }
+        );
+        setHoverPosition(position);
+        return;
+      }
+      if (
+        modeRef.current !== "order-k" &&
+        modeRef.current !== "alpha-adaptive"
+      ) {
+        return;
+      }
+      setHoverPosition(getRelativePosition(event));
+    };
+
+    const clearHover = () => {
+      setHoverPosition(null);
+      setOverlays((previous) =>
+        previous.highlightedMedialVertex === null
+          ? previous
+          : { ...previous, highlightedMedialVertex: null }
+      );
+    };
+
     /**
      * Releases pointer for point dragging
      */
     const releasePointer = (event: PointerEvent) => {
+      const constraintDrag = constraintDragRef.current;
+      if (constraintDrag && constraintDrag.pointerId === event.pointerId) {
+        constraintDragRef.current = null;
+        if (canvas.hasPointerCapture(event.pointerId)) {
+          canvas.releasePointerCapture(event.pointerId);
+        }
+        setOverlays((previous) => ({ ...previous, constraintPreview: null }));
+
+        // Dropping on another point adds the segment (once)
+        const { x, y } = getRelativePosition(event);
+        const hitIndex = findPointByPosition(x, y);
+        const toId = hitIndex >= 0 ? pointsRef.current[hitIndex].id : null;
+        if (
+          event.type === "pointerup" &&
+          toId !== null &&
+          toId !== constraintDrag.fromId
+        ) {
+          const { fromId } = constraintDrag;
+          setConstraints((previous) =>
+            previous.some(
+              ([a, b]) =>
+                (a === fromId && b === toId) || (a === toId && b === fromId)
+            )
+              ? previous
+              : [...previous, [fromId, toId]]
+          );
+        }
+      }
+
+      const weightDrag = weightDragRef.current;
+      if (weightDrag && weightDrag.pointerId === event.pointerId) {
+        weightDragRef.current = null;
+        if (canvas.hasPointerCapture(event.pointerId)) {
+          canvas.releasePointerCapture(event.pointerId);
+        }
+      }
+
       const dragState = dragRef.current;
       if (dragState && dragState.pointerId === event.pointerId) {
         dragRef.current = null;
@@ -522,6 +1200,8 @@ export const VoronoiCanvas = () => {
     canvas.addEventListener("pointercancel", releasePointer);
     canvas.addEventListener("pointerleave", releasePointer);
     canvas.addEventListener("contextmenu", handleContextMenu);
+    canvas.addEventListener("pointermove", handleHoverMove);
+    canvas.addEventListener("pointerleave", clearHover);
 
     return () => {
       canvas.removeEventListener("pointerdown", handleGhostPointerDown, true);
@@ -534,6 +1214,8 @@ export const VoronoiCanvas = () => {
       canvas.removeEventListener("pointercancel", releasePointer);
       canvas.removeEventListener("pointerleave", releasePointer);
       canvas.removeEventListener("contextmenu", handleContextMenu);
+      canvas.removeEventListener("pointermove", handleHoverMove);
+      canvas.removeEventListener("pointerleave", clearHover);
     };
   }, [size.width, size.height]);
 
@@ -571,7 +1253,7 @@ export const VoronoiCanvas = () => {
   // ============================================================================
   const handleDownload = () => {
     const canvas = canvasRef.current;
-    if (!canvas || (mode !== "voronoi" && mode !== "voronoi-bruteforce")) return;
+    if (!canvas || (!isVoronoiFamily && mode !== "stipple")) return;
 
     const exportCanvas = document.createElement("canvas");
     exportCanvas.width = size.width;
@@ -582,64 +1264,36 @@ export const VoronoiCanvas = () => {
     ctx.fillStyle = "#04050a";
     ctx.fillRect(0, 0, size.width, size.height);
 
-    // Brute force mode: render pixel by pixel
-    if (mode === "voronoi-bruteforce") {
+    // Stipple mode: dots on paper
+    if (mode === "stipple") {
+      drawStipples(ctx, overlays.stipples, size.width, size.height);
+      const link = document.createElement("a");
+      link.download = "voronoi-stipple.png";
+      link.href = exportCanvas.toDataURL("image/png");
+      link.click();
+      return;
+    }
+
+    // Raster modes: paint the precomputed label map pixel by pixel
+    if (RASTER_MODES.includes(mode)) {
+      const labels = derived.rasterLabels;
+      if (!labels || labels.length !== size.width * size.height) return;
       const imageData = ctx.createImageData(size.width, size.height);
-      const data = imageData.data;
 
       // Pre-calculate colors for each cell
-      const cellColors: Array<{ r: number; g: number; b: number }> = [];
-      
+      let cellColors: RGBColor[];
+
       if (backgroundImage) {
         // Calculate average color for each cell from background image
-        const cellColorSums: Array<{ r: number; g: number; b: number; count: number }> = 
-          points.map(() => ({ r: 0, g: 0, b: 0, count: 0 }));
-        
-        const scaleX = backgroundImage.width / size.width;
-        const scaleY = backgroundImage.height / size.height;
-        
-        for (let y = 0; y < size.height; y++) {
-          for (let x = 0; x < size.width; x++) {
-            let closestIndex = 0;
-            let closestDistance = Number.MAX_VALUE;
-
-            for (let i = 0; i < points.length; i++) {
-              const seedX = Math.round(points[i].x);
-              const seedY = Math.round(points[i].y);
-              const dx = x - seedX;
-              const dy = y - seedY;
-              const distSquared = dx * dx + dy * dy;
-
-              if (distSquared < closestDistance) {
-                closestDistance = distSquared;
-                closestIndex = i;
-              }
-            }
-
-            const imgX = Math.floor(x * scaleX);
-            const imgY = Math.floor(y * scaleY);
-            const imgIndex = (imgY * backgroundImage.width + imgX) * 4;
-            
-            cellColorSums[closestIndex].r += backgroundImage.data[imgIndex];
-            cellColorSums[closestIndex].g += backgroundImage.data[imgIndex + 1];
-            cellColorSums[closestIndex].b += backgroundImage.data[imgIndex + 2];
-            cellColorSums[closestIndex].count++;
-          }
-        }
-        
-        for (let i = 0; i < points.length; i++) {
-          const sum = cellColorSums[i];
-          if (sum.count > 0) {
-            cellColors.push({
-              r: Math.round(sum.r / sum.count),
-              g: Math.round(sum.g / sum.count),
-              b: Math.round(sum.b / sum.count),
-            });
-          } else {
-            cellColors.push({ r: 128, g: 128, b: 128 });
-          }
-        }
+        cellColors = averageImageColorPerLabel(
+          labels,
+          points.length,
+          size.width,
+          size.height,
+          backgroundImage
+        );
       } else {
+        cellColors = [];
         for (let i = 0; i < points.length; i++) {
           const hue = (i * 137.5) % 360;
           const saturation = 85;
@@ -667,33 +1321,15 @@ export const VoronoiCanvas = () => {
       }
 
       // Render each pixel
-      for (let y = 0; y < size.height; y++) {
-        for (let x = 0; x < size.width; x++) {
-          let closestIndex = 0;
-          let closestDistance = Number.MAX_VALUE;
-
-          for (let i = 0; i < points.length; i++) {
-            const seedX = Math.round(points[i].x);
-            const seedY = Math.round(points[i].y);
-            const dx = x - seedX;
-            const dy = y - seedY;
-            const distSquared = dx * dx + dy * dy;
-
-            if (distSquared < closestDistance) {
-              closestDistance = distSquared;
-              closestIndex = i;
-            }
-          }
-
-          const color = cellColors[closestIndex];
-          const pixelIndex = (y * size.width + x) * 4;
-          data[pixelIndex] = color.r;
-          data[pixelIndex + 1] = color.g;
-          data[pixelIndex + 2] = color.b;
-          data[pixelIndex + 3] = 255;
-        }
+      if (derived.distanceField) {
+        paintDistanceField(
+          imageData,
+          derived.distanceField,
+          overlays.showIsolines
+        );
+      } else {
+        paintLabelMap(imageData, labels, cellColors);
       }
-
       ctx.putImageData(imageData, 0, 0);
     } else {
       // Continuous Voronoi mode: render polygons
@@ -730,6 +1366,99 @@ export const VoronoiCanvas = () => {
     link.click();
   };
 
+  const handleDownloadDistanceField = async () => {
+    const field = derived.distanceField;
+    if (!field) return;
+    const blob = await encodeGray16Png(
+      distanceFieldToGray16(field),
+      field.width,
+      field.height
+    );
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.download = `voronoi-distance-${field.kind}-16bit.png`;
+    link.href = url;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const convexLayerCount = derived.convexLayers?.length ?? 0;
+  const visibleHullLayers = Math.min(
+    overlays.hullLayerCount,
+    Math.max(1, convexLayerCount)
+  );
+
+  /**
+   * Downloads convex layers as GeoJSON features
+   * @param depths - Layer depths to export (0 = convex hull)
+   */
+  const handleDownloadConvexLayers = (depths: number[]) => {
+    const layers = derived.convexLayers;
+    if (!layers) return;
+    const features = depths
+      .filter((depth) => layers[depth])
+      .map((depth) => convexLayerToGeoJson(points, layers[depth], depth));
+    const collection = { type: "FeatureCollection", features };
+    const blob = new Blob([JSON.stringify(collection, null, 2)], {
+      type: "application/geo+json",
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.download =
+      depths.length === 1
+        ? `convex-layer-${depths[0] + 1}.geojson`
+        : "convex-layers.geojson";
+    link.href = url;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleDownloadAlphaShape = () => {
+    if (!derived.alphaComponents) return;
+    const collection = alphaShapeToGeoJson(
+      points,
+      derived.alphaComponents,
+      alphaRadius
+    );
+    const blob = new Blob([JSON.stringify(collection, null, 2)], {
+      type: "application/geo+json",
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.download = `alpha-shape-${Math.round(alphaRadius)}.geojson`;
+    link.href = url;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleDownloadSites = () => {
+    if (!points.length) return;
+    const blob = new Blob(
+      [JSON.stringify(sitesToGeoJson(points, mode), null, 2)],
+      { type: "application/geo+json" }
+    );
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.download = `${mode}-sites.geojson`;
+    link.href = url;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleDownloadSvg = () => {
+    if (!overlays.stipples.length) return;
+    const blob = new Blob(
+      [stipplesToSvg(overlays.stipples, size.width, size.height)],
+      { type: "image/svg+xml" }
+    );
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.download = "voronoi-stipple.svg";
+    link.href = url;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
   const modeMeta = GRAPH_MODE_OPTIONS.find((option) => option.value === mode);
 
   // ============================================================================
@@ -782,9 +1511,11 @@ export const VoronoiCanvas = () => {
               })}
             </div>
           </div>
-          {isAlphaMode ? (
+          {usesAlphaSlider ? (
             <div className="flex items-center gap-4 rounded-xl border border-white/10 bg-white/5 px-4 py-3">
-              <span className="text-xs text-white/70">Rayon α</span>
+              <span className="text-xs text-white/70">
+                {isAdaptiveAlpha ? "Facteur α" : "Rayon α"}
+              </span>
               <input
                 type="range"
                 min={0}
@@ -797,10 +1528,892 @@ export const VoronoiCanvas = () => {
                 className="flex-1 accent-cyan-300"
               />
               <span className="min-w-[70px] text-right text-xs font-medium text-white">
-                {Math.round(alphaRadius)} px
+                {isAdaptiveAlpha
+                  ? `× ${alphaMultiplier.toFixed(2)}`
+                  : `${Math.round(alphaRadius)} px`}
               </span>
+              {isAlphaMode ? (
+                <button
+                  type="button"
+                  disabled={
+                    !derived.alphaComponents?.some(
+                      (component) => component.polygons.length
+                    )
+                  }
+                  onClick={handleDownloadAlphaShape}
+                  className="rounded-lg border border-white/10 bg-white/5 px-2 py-1 text-xs text-white/80 transition hover:border-white/30 hover:bg-white/10 disabled:cursor-not-allowed disabled:opacity-40"
+                >
+                  Exporter GeoJSON
+                </button>
+              ) : null}
             </div>
           ) : null}
+          {isAdaptiveAlpha ? (
+            <div className="flex flex-wrap items-center gap-4 rounded-xl border border-white/10 bg-white/5 px-4 py-3">
+              <span className="text-xs text-white/70">Échelle locale</span>
+              <div className="flex gap-2">
+                {(
+                  [
+                    ["knn", `${ADAPTIVE_ALPHA_NEIGHBOURS} plus proches voisins`],
+                    ["poles", "Pôles de Voronoï"],
+                  ] as const
+                ).map(([value, label]) => (
+                  <button
+                    key={value}
+                    type="button"
+                    onClick={() => setLocalScale(value)}
+                    className={`rounded-lg border px-3 py-1 text-xs transition ${
+                      localScale === value
+                        ? "border-cyan-300/70 bg-cyan-300/15 text-white"
+                        : "border-white/10 bg-white/5 text-white/70 hover:border-white/30 hover:bg-white/10"
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
+          ) : null}
+          {isAlphaMode ? (
+            <div className="flex flex-wrap items-center gap-4 rounded-xl border border-white/10 bg-white/5 px-4 py-3">
+              <span className="text-xs text-white/70">α auto</span>
+              <button
+                type="button"
+                disabled={!points.length}
+                onClick={() => handleAutoAlpha("connected")}
+                className="rounded-lg border border-white/10 bg-white/5 px-2 py-1 text-xs text-white/80 transition hover:border-white/30 hover:bg-white/10 disabled:cursor-not-allowed disabled:opacity-40"
+              >
+                Une composante
+              </button>
+              <button
+                type="button"
+                disabled={!points.length}
+                onClick={() => handleAutoAlpha("hole-free")}
+                className="rounded-lg border border-white/10 bg-white/5 px-2 py-1 text-xs text-white/80 transition hover:border-white/30 hover:bg-white/10 disabled:cursor-not-allowed disabled:opacity-40"
+              >
+                Sans trou
+              </button>
+              <div className="flex items-center gap-2">
+                <input
+                  type="number"
+                  min={1}
+                  max={Math.max(1, points.length)}
+                  value={alphaTargetComponents}
+                  onChange={(event) =>
+                    setAlphaTargetComponents(
+                      Math.max(1, Math.round(Number(event.target.value)) || 1)
+                    )
+                  }
+                  className="w-14 rounded-lg border border-white/10 bg-white/5 px-2 py-1 text-xs text-white"
+                />
+                <button
+                  type="button"
+                  disabled={!points.length}
+                  onClick={() => handleAutoAlpha("components")}
+                  className="rounded-lg border border-white/10 bg-white/5 px-2 py-1 text-xs text-white/80 transition hover:border-white/30 hover:bg-white/10 disabled:cursor-not-allowed disabled:opacity-40"
+                >
+                  Composantes
+                </button>
+              </div>
+            </div>
+          ) : null}
+          {isAlphaMode ? (
+            <div className="flex flex-wrap items-center gap-4 rounded-xl border border-white/10 bg-white/5 px-4 py-3">
+              <label className="flex items-center gap-2 text-xs text-white/70">
+                <input
+                  type="checkbox"
+                  checked={overlays.showUnionOfBalls}
+                  onChange={(event) => {
+                    const checked = event.target.checked;
+                    setOverlays((previous) => ({
+                      ...previous,
+                      showUnionOfBalls: checked,
+                    }));
+                  }}
+                  className="accent-cyan-300"
+                />
+                Union de disques
+              </label>
+              <label className="flex items-center gap-2 text-xs text-white/70">
+                <input
+                  type="checkbox"
+                  checked={showMedialAxis}
+                  onChange={(event) => setShowMedialAxis(event.target.checked)}
+                  className="accent-cyan-300"
+                />
+                Axe médian
+              </label>
+              {showMedialAxis ? (
+                <>
+                  <span className="text-xs text-white/70">λ</span>
+                  <input
+                    type="range"
+                    min={0}
+                    max={MEDIAL_AXIS_LAMBDA_MAX}
+                    step={1}
+                    value={medialAxisLambda}
+                    onChange={(event) =>
+                      setMedialAxisLambda(Number(event.target.value))
+                    }
+                    className="flex-1 accent-cyan-300"
+                  />
+                  <span className="min-w-[70px] text-right text-xs font-medium text-white">
+                    λ = {medialAxisLambda} px
+                  </span>
+                </>
+              ) : null}
+            </div>
+          ) : null}
+          {isAlphaMode ? (
+            <div className="flex flex-col gap-3 rounded-xl border border-white/10 bg-white/5 px-4 py-3">
+              <div className="flex flex-wrap items-center gap-4">
+                <label className="flex items-center gap-2 text-xs text-white/70">
+                  <input
+                    type="checkbox"
+                    checked={showPersistence}
+                    onChange={(event) => setShowPersistence(event.target.checked)}
+                    className="accent-cyan-300"
+                  />
+                  Persistance (H0, H1)
+                </label>
+                {aliveFeatures ? (
+                  <span className="text-xs text-white/60">
+                    À α courant : {aliveFeatures[0]} composante
+                    {aliveFeatures[0] > 1 ? "s" : ""}, {aliveFeatures[1]} trou
+                    {aliveFeatures[1] > 1 ? "s" : ""} — cliquez une barre pour
+                    la surligner
+                  </span>
+                ) : null}
+              </div>
+              {persistence ? (
+                <div className="flex flex-wrap items-start gap-4">
+                  <svg
+                    viewBox={`0 0 100 ${Math.max(1, persistenceBars.length) * 4}`}
+                    preserveAspectRatio="none"
+                    className="h-48 min-w-[240px] flex-1 rounded border border-white/10 bg-slate-950/60"
+                  >
+                    {persistenceBars.map(({ interval, start, end }, row) => (
+                      <rect
+                        key={row}
+                        x={start * 100}
+                        y={row * 4 + 0.8}
+                        width={Math.max(0.6, (end - start) * 100)}
+                        height={2.4}
+                        fill={
+                          interval === highlightedInterval
+                            ? "rgb(250, 204, 21)"
+                            : interval.dimension === 0
+                              ? "rgb(103, 232, 249)"
+                              : "rgb(244, 114, 182)"
+                        }
+                        className="cursor-pointer"
+                        onClick={() => handleSelectInterval(interval)}
+                      />
+                    ))}
+                    <line
+                      x1={alphaSlider * 100}
+                      x2={alphaSlider * 100}
+                      y1={0}
+                      y2={Math.max(1, persistenceBars.length) * 4}
+                      stroke="rgba(255, 255, 255, 0.8)"
+                      strokeWidth={1}
+                      vectorEffect="non-scaling-stroke"
+                    />
+                  </svg>
+                  <svg
+                    viewBox="0 0 100 100"
+                    className="h-48 w-48 rounded border border-white/10 bg-slate-950/60"
+                  >
+                    <line
+                      x1={0}
+                      y1={100}
+                      x2={100}
+                      y2={0}
+                      stroke="rgba(255, 255, 255, 0.25)"
+                      strokeWidth={0.5}
+                    />
+                    {/* Features alive at α: born before, dying after */}
+                    <rect
+                      x={0}
+                      y={0}
+                      width={alphaSlider * 100}
+                      height={100 - alphaSlider * 100}
+                      fill="rgba(255, 255, 255, 0.06)"
+                      stroke="rgba(255, 255, 255, 0.5)"
+                      strokeWidth={0.4}
+                      strokeDasharray="2 2"
+                    />
+                    {persistenceBars.map(({ interval, start, end }, row) => (
+                      <circle
+                        key={row}
+                        cx={start * 100}
+                        cy={100 - end * 100}
+                        r={interval === highlightedInterval ? 2.6 : 1.8}
+                        fill={
+                          interval === highlightedInterval
+                            ? "rgb(250, 204, 21)"
+                            : interval.dimension === 0
+                              ? "rgb(103, 232, 249)"
+                              : "rgb(244, 114, 182)"
+                        }
+                        className="cursor-pointer"
+                        onClick={() => handleSelectInterval(interval)}
+                      />
+                    ))}
+                  </svg>
+                </div>
+              ) : null}
+            </div>
+          ) : null}
+          {mode === "beta-skeleton" ? (
+            <div className="flex flex-wrap items-center gap-4 rounded-xl border border-white/10 bg-white/5 px-4 py-3">
+              <span className="text-xs text-white/70">β</span>
+              <input
+                type="range"
+                min={0}
+                max={1}
+                step={BETA_SLIDER_STEP}
+                value={betaSlider}
+                onChange={(event) => setBetaSlider(Number(event.target.value))}
+                className="flex-1 accent-cyan-300"
+              />
+              <span className="min-w-[70px] text-right text-xs font-medium text-white">
+                β = {betaLabel}
+              </span>
+              <div className="flex gap-1">
+                {(["lune", "circle"] as const).map((variant) => (
+                  <button
+                    key={variant}
+                    type="button"
+                    onClick={() => setBetaVariant(variant)}
+                    className={`rounded-lg border px-2 py-1 text-xs transition ${
+                      betaVariant === variant
+                        ? "border-cyan-300/70 bg-cyan-300/15 text-white"
+                        : "border-white/10 bg-white/5 text-white/70 hover:border-white/30 hover:bg-white/10"
+                    }`}
+                  >
+                    {variant === "lune" ? "Lunule" : "Cercles"}
+                  </button>
+                ))}
+              </div>
+            </div>
+          ) : null}
+          {RASTER_MODES.includes(mode) ? (
+            <div className="flex flex-wrap items-center gap-4 rounded-xl border border-white/10 bg-white/5 px-4 py-3">
+              <span className="text-xs text-white/70">Calcul</span>
+              <div className="flex gap-1">
+                {(["bruteforce", "jfa"] as const).map((backend) => (
+                  <button
+                    key={backend}
+                    type="button"
+                    disabled={isDistanceLayerOn}
+                    onClick={() => setRasterBackend(backend)}
+                    className={`rounded-lg border px-2 py-1 text-xs transition disabled:cursor-not-allowed disabled:opacity-40 ${
+                      effectiveRasterBackend === backend
+                        ? "border-cyan-300/70 bg-cyan-300/15 text-white"
+                        : "border-white/10 bg-white/5 text-white/70 hover:border-white/30 hover:bg-white/10"
+                    }`}
+                  >
+                    {backend === "bruteforce" ? "Force brute" : "Jump flooding"}
+                  </button>
+                ))}
+              </div>
+              {isDistanceLayerOn ? (
+                <span className="text-xs text-white/60">
+                  La couche distance impose la force brute
+                </span>
+              ) : null}
+              {effectiveRasterBackend === "jfa" ? (
+                <>
+                  <button
+                    type="button"
+                    onClick={handleCompareBackends}
+                    className="rounded-lg border border-white/10 bg-white/5 px-2 py-1 text-xs text-white/80 transition hover:border-white/30 hover:bg-white/10"
+                  >
+                    Comparer
+                  </button>
+                  <span className="text-xs text-white/60">
+                    {jfaDifferences === null
+                      ? "Écart avec la force brute : non calculé"
+                      : `Pixels différents : ${jfaDifferences}`}
+                  </span>
+                </>
+              ) : null}
+            </div>
+          ) : null}
+          {mode === "voronoi-bruteforce" ? (
+            <div className="flex flex-wrap items-center gap-4 rounded-xl border border-white/10 bg-white/5 px-4 py-3">
+              <span className="text-xs text-white/70">Métrique</span>
+              <div className="flex gap-1">
+                {DISTANCE_METRIC_OPTIONS.map(({ kind, label }) => (
+                  <button
+                    key={kind}
+                    type="button"
+                    onClick={() =>
+                      setMetric((previous) => ({ ...previous, kind }))
+                    }
+                    className={`rounded-lg border px-2 py-1 text-xs transition ${
+                      metric.kind === kind
+                        ? "border-cyan-300/70 bg-cyan-300/15 text-white"
+                        : "border-white/10 bg-white/5 text-white/70 hover:border-white/30 hover:bg-white/10"
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+              {metric.kind === "minkowski" ? (
+                <>
+                  <input
+                    type="range"
+                    min={MINKOWSKI_P_MIN}
+                    max={MINKOWSKI_P_MAX}
+                    step={0.1}
+                    value={metric.p}
+                    onChange={(event) =>
+                      setMetric((previous) => ({
+                        ...previous,
+                        p: Number(event.target.value),
+                      }))
+                    }
+                    className="flex-1 accent-cyan-300"
+                  />
+                  <span className="min-w-[70px] text-right text-xs font-medium text-white">
+                    p = {metric.p.toFixed(1)}
+                  </span>
+                </>
+              ) : null}
+              {metric.kind === "anisotropic" ? (
+                <div className="grid grid-cols-2 gap-1">
+                  {metric.matrix.map((value, entry) => (
+                    <input
+                      key={entry}
+                      type="number"
+                      step={0.1}
+                      value={value}
+                      onChange={(event) => {
+                        const next = Number(event.target.value);
+                        if (!Number.isFinite(next)) return;
+                        setMetric((previous) => {
+                          const matrix: DistanceMetric["matrix"] = [
+                            ...previous.matrix,
+                          ];
+                          matrix[entry] = next;
+                          return { ...previous, matrix };
+                        });
+                      }}
+                      className="w-16 rounded-lg border border-white/10 bg-white/5 px-2 py-1 text-xs text-white"
+                    />
+                  ))}
+                </div>
+              ) : null}
+            </div>
+          ) : null}
+          {mode === "voronoi-bruteforce" ? (
+            <div className="flex flex-wrap items-center gap-4 rounded-xl border border-white/10 bg-white/5 px-4 py-3">
+              <span className="text-xs text-white/70">Distance</span>
+              <div className="flex gap-1">
+                {(["none", "nearest", "gap"] as const).map((kind) => (
+                  <button
+                    key={kind}
+                    type="button"
+                    onClick={() => setDistanceFieldKind(kind)}
+                    className={`rounded-lg border px-2 py-1 text-xs transition ${
+                      distanceFieldKind === kind
+                        ? "border-cyan-300/70 bg-cyan-300/15 text-white"
+                        : "border-white/10 bg-white/5 text-white/70 hover:border-white/30 hover:bg-white/10"
+                    }`}
+                  >
+                    {kind === "none"
+                      ? "Aucune"
+                      : kind === "nearest"
+                        ? "F1"
+                        : "F2 − F1"}
+                  </button>
+                ))}
+              </div>
+              {derived.distanceField ? (
+                <>
+                  <label className="flex items-center gap-2 text-xs text-white/70">
+                    <input
+                      type="checkbox"
+                      checked={overlays.showIsolines}
+                      onChange={(event) => {
+                        const checked = event.target.checked;
+                        setOverlays((previous) => ({
+                          ...previous,
+                          showIsolines: checked,
+                        }));
+                      }}
+                      className="accent-cyan-300"
+                    />
+                    Isolignes (pas {ISOLINE_SPACING})
+                  </label>
+                  <div className="flex flex-1 items-center gap-2 text-xs text-white/60">
+                    <span>0</span>
+                    <div
+                      className="h-2 flex-1 rounded-full"
+                      style={{ background: distanceLegendGradient }}
+                    />
+                    <span>{derived.distanceField.max.toFixed(1)}</span>
+                  </div>
+                </>
+              ) : null}
+            </div>
+          ) : null}
+          {mode === "order-k" ? (
+            <div className="flex items-center gap-4 rounded-xl border border-white/10 bg-white/5 px-4 py-3">
+              <span className="text-xs text-white/70">Ordre k</span>
+              <input
+                type="range"
+                min={1}
+                max={maxOrderK}
+                step={1}
+                value={effectiveOrderK}
+                onChange={(event) => setOrderK(Number(event.target.value))}
+                className="flex-1 accent-cyan-300"
+              />
+              <span className="min-w-[70px] text-right text-xs font-medium text-white">
+                k = {effectiveOrderK}
+              </span>
+            </div>
+          ) : null}
+          {mode === "concave-hull" ? (
+            <div className="flex flex-wrap items-center gap-4 rounded-xl border border-white/10 bg-white/5 px-4 py-3">
+              <div className="flex gap-2">
+                {(
+                  [
+                    ["chi", "χ-shape"],
+                    ["knn", "k-NN (Moreira–Santos)"],
+                  ] as const
+                ).map(([value, label]) => (
+                  <button
+                    key={value}
+                    type="button"
+                    onClick={() => setConcaveAlgorithm(value)}
+                    className={`rounded-lg border px-3 py-1 text-xs transition ${
+                      concaveAlgorithm === value
+                        ? "border-cyan-300/70 bg-cyan-300/15 text-white"
+                        : "border-white/10 bg-white/5 text-white/70 hover:border-white/30 hover:bg-white/10"
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+              {concaveAlgorithm === "chi" ? (
+                <>
+                  <span className="text-xs text-white/70">Longueur λ</span>
+                  <input
+                    type="range"
+                    min={0}
+                    max={1}
+                    step={0.01}
+                    value={chiLambda}
+                    onChange={(event) =>
+                      setChiLambda(Number(event.target.value))
+                    }
+                    className="flex-1 accent-cyan-300"
+                  />
+                  <span className="min-w-[70px] text-right text-xs font-medium text-white">
+                    λ = {Math.round(chiLambda * 100)} %
+                  </span>
+                </>
+              ) : (
+                <>
+                  <span className="text-xs text-white/70">Voisins k</span>
+                  <input
+                    type="range"
+                    min={3}
+                    max={CONCAVE_K_MAX}
+                    step={1}
+                    value={concaveK}
+                    onChange={(event) =>
+                      setConcaveK(Number(event.target.value))
+                    }
+                    className="flex-1 accent-cyan-300"
+                  />
+                  <span className="min-w-[70px] text-right text-xs font-medium text-white">
+                    k = {concaveK}
+                  </span>
+                </>
+              )}
+            </div>
+          ) : null}
+          {mode === "voronoi" ? (
+            <div className="flex flex-wrap items-center gap-4 rounded-xl border border-white/10 bg-white/5 px-4 py-3">
+              <span className="text-xs text-white/70">Relaxation</span>
+              <div className="flex gap-1">
+                <button
+                  type="button"
+                  onClick={() => {
+                    setIsRelaxing(false);
+                    runRelaxationStep();
+                  }}
+                  className="rounded-lg border border-white/10 bg-white/5 px-2 py-1 text-xs text-white/80 transition hover:border-white/30 hover:bg-white/10"
+                >
+                  Pas
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setIsRelaxing((previous) => !previous)}
+                  className={`rounded-lg border px-2 py-1 text-xs transition ${
+                    isRelaxing
+                      ? "border-cyan-300/70 bg-cyan-300/15 text-white"
+                      : "border-white/10 bg-white/5 text-white/80 hover:border-white/30 hover:bg-white/10"
+                  }`}
+                >
+                  {isRelaxing ? "Pause" : "Lecture"}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => {
+                    setRelaxEnergies([]);
+                    setRelaxIterations(0);
+                  }}
+                  className="rounded-lg border border-white/10 bg-white/5 px-2 py-1 text-xs text-white/80 transition hover:border-white/30 hover:bg-white/10"
+                >
+                  Effacer
+                </button>
+              </div>
+              <span className="text-xs text-white/70">Seuil</span>
+              <input
+                type="range"
+                min={0.05}
+                max={5}
+                step={0.05}
+                value={relaxThreshold}
+                onChange={(event) =>
+                  setRelaxThreshold(Number(event.target.value))
+                }
+                className="w-32 accent-cyan-300"
+              />
+              <span className="text-xs font-medium text-white">
+                {relaxThreshold.toFixed(2)} px
+              </span>
+              <label
+                className={`flex items-center gap-2 text-xs ${
+                  backgroundImage ? "text-white/70" : "text-white/30"
+                }`}
+              >
+                <input
+                  type="checkbox"
+                  disabled={!backgroundImage}
+                  checked={relaxUseDensity && backgroundImage !== null}
+                  onChange={(event) => setRelaxUseDensity(event.target.checked)}
+                  className="accent-cyan-300"
+                />
+                Densité de l&apos;image
+              </label>
+              <div className="ml-auto flex items-center gap-3">
+                <svg
+                  viewBox="0 0 100 30"
+                  preserveAspectRatio="none"
+                  className="h-8 w-32 rounded border border-white/10 bg-slate-950/60"
+                >
+                  {relaxEnergyPath ? (
+                    <polyline
+                      points={relaxEnergyPath}
+                      fill="none"
+                      stroke="rgb(103, 232, 249)"
+                      strokeWidth={1.2}
+                      vectorEffect="non-scaling-stroke"
+                    />
+                  ) : null}
+                </svg>
+                <span className="min-w-[90px] text-right text-xs text-white/70">
+                  {relaxEnergies.length
+                    ? `E ≈ ${relaxEnergies[relaxEnergies.length - 1].toExponential(2)}`
+                    : "E : —"}
+                </span>
+              </div>
+            </div>
+          ) : null}
+          {mode === "stipple" ? (
+            <div className="flex flex-wrap items-center gap-4 rounded-xl border border-white/10 bg-white/5 px-4 py-3">
+              <span className="text-xs text-white/70">Points</span>
+              <input
+                type="range"
+                min={500}
+                max={STIPPLE_COUNT_MAX}
+                step={500}
+                value={stippleCount}
+                onChange={(event) => setStippleCount(Number(event.target.value))}
+                className="flex-1 accent-cyan-300"
+              />
+              <span className="min-w-[70px] text-right text-xs font-medium text-white">
+                {stippleCount}
+              </span>
+              <button
+                type="button"
+                disabled={!backgroundImage}
+                onClick={handleGenerateStipples}
+                className="rounded-lg border border-cyan-300/30 bg-cyan-300/10 px-2 py-1 text-xs text-cyan-300 transition hover:border-cyan-300/50 hover:bg-cyan-300/20 disabled:cursor-not-allowed disabled:opacity-40"
+              >
+                Générer
+              </button>
+              <button
+                type="button"
+                disabled={!overlays.stipples.length}
+                onClick={() => setIsStippling((previous) => !previous)}
+                className="rounded-lg border border-white/10 bg-white/5 px-2 py-1 text-xs text-white/80 transition hover:border-white/30 hover:bg-white/10 disabled:cursor-not-allowed disabled:opacity-40"
+              >
+                {isStippling ? "Pause" : "Reprendre"}
+              </button>
+              <span className="text-xs text-white/60">
+                {backgroundImage
+                  ? `Itérations : ${stippleIterations}/${STIPPLE_MAX_ITERATIONS}`
+                  : "Chargez une image ci-dessous"}
+              </span>
+            </div>
+          ) : null}
+          {mode === "hull" ? (
+            <div className="flex flex-wrap items-center gap-4 rounded-xl border border-white/10 bg-white/5 px-4 py-3">
+              <span className="text-xs text-white/70">Couches</span>
+              <input
+                type="range"
+                min={1}
+                max={Math.max(1, convexLayerCount)}
+                step={1}
+                value={visibleHullLayers}
+                onChange={(event) => {
+                  const hullLayerCount = Number(event.target.value);
+                  setOverlays((previous) => ({ ...previous, hullLayerCount }));
+                }}
+                className="flex-1 accent-cyan-300"
+              />
+              <span className="min-w-[70px] text-right text-xs font-medium text-white">
+                {visibleHullLayers}/{convexLayerCount}
+              </span>
+              <button
+                type="button"
+                disabled={!convexLayerCount}
+                onClick={() =>
+                  handleDownloadConvexLayers([visibleHullLayers - 1])
+                }
+                className="rounded-lg border border-white/10 bg-white/5 px-2 py-1 text-xs text-white/80 transition hover:border-white/30 hover:bg-white/10 disabled:cursor-not-allowed disabled:opacity-40"
+              >
+                Exporter la couche {visibleHullLayers}
+              </button>
+              <button
+                type="button"
+                disabled={!convexLayerCount}
+                onClick={() =>
+                  handleDownloadConvexLayers(
+                    Array.from({ length: convexLayerCount }, (_, depth) => depth)
+                  )
+                }
+                className="rounded-lg border border-white/10 bg-white/5 px-2 py-1 text-xs text-white/80 transition hover:border-white/30 hover:bg-white/10 disabled:cursor-not-allowed disabled:opacity-40"
+              >
+                Tout exporter
+              </button>
+            </div>
+          ) : null}
+          {mode !== "stipple" ? (
+            <div className="flex flex-wrap items-center gap-4 rounded-xl border border-white/10 bg-white/5 px-4 py-3">
+              <label className="flex items-center gap-2 text-xs text-white/70">
+                <input
+                  type="checkbox"
+                  checked={circleDomain !== null}
+                  onChange={(event) =>
+                    setCircleDomain(event.target.checked ? "canvas" : null)
+                  }
+                  className="accent-cyan-300"
+                />
+                Analyse des cercles
+              </label>
+              {circleDomain !== null ? (
+                <>
+                  <span className="text-xs text-white/70">Centre du cercle vide</span>
+                  <div className="flex gap-1">
+                    {(["canvas", "hull"] as const).map((domain) => (
+                      <button
+                        key={domain}
+                        type="button"
+                        onClick={() => setCircleDomain(domain)}
+                        className={`rounded-lg border px-2 py-1 text-xs transition ${
+                          circleDomain === domain
+                            ? "border-cyan-300/70 bg-cyan-300/15 text-white"
+                            : "border-white/10 bg-white/5 text-white/70 hover:border-white/30 hover:bg-white/10"
+                        }`}
+                      >
+                        {domain === "canvas" ? "Canevas" : "Enveloppe"}
+                      </button>
+                    ))}
+                  </div>
+                </>
+              ) : null}
+            </div>
+          ) : null}
+          {mode === "cdt" ? (
+            <div className="flex flex-wrap items-center gap-4 rounded-xl border border-white/10 bg-white/5 px-4 py-3">
+              <span className="text-xs text-white/70">
+                Maj + glisser d&apos;un point à un autre ajoute un segment
+                contraint
+              </span>
+              <button
+                type="button"
+                disabled={!constraints.length}
+                onClick={() => setConstraints([])}
+                className="rounded-lg border border-white/10 bg-white/5 px-2 py-1 text-xs text-white/80 transition hover:border-white/30 hover:bg-white/10 disabled:cursor-not-allowed disabled:opacity-40"
+              >
+                Effacer les contraintes
+              </button>
+            </div>
+          ) : null}
+          {mode === "mesh" ? (
+            <div className="flex flex-col gap-3 rounded-xl border border-white/10 bg-white/5 px-4 py-3">
+              <div className="flex flex-wrap items-center gap-4">
+                <span className="text-xs text-white/70">Bord</span>
+                <div className="flex gap-1">
+                  {(["hull", "alpha"] as const).map((boundary) => (
+                    <button
+                      key={boundary}
+                      type="button"
+                      onClick={() => setMeshBoundary(boundary)}
+                      className={`rounded-lg border px-2 py-1 text-xs transition ${
+                        meshBoundary === boundary
+                          ? "border-cyan-300/70 bg-cyan-300/15 text-white"
+                          : "border-white/10 bg-white/5 text-white/70 hover:border-white/30 hover:bg-white/10"
+                      }`}
+                    >
+                      {boundary === "hull" ? "Enveloppe" : "Alpha-shape"}
+                    </button>
+                  ))}
+                </div>
+                <button
+                  type="button"
+                  disabled={!derived.graphEdges.length}
+                  onClick={handleToggleMeshing}
+                  className="rounded-lg border border-cyan-300/30 bg-cyan-300/10 px-2 py-1 text-xs text-cyan-300 transition hover:border-cyan-300/50 hover:bg-cyan-300/20 disabled:cursor-not-allowed disabled:opacity-40"
+                >
+                  {isMeshing ? "Pause" : mesh ? "Reprendre" : "Raffiner"}
+                </button>
+                <button
+                  type="button"
+                  disabled={isMeshing || !derived.graphEdges.length}
+                  onClick={() => runMeshSteps(1)}
+                  className="rounded-lg border border-white/10 bg-white/5 px-2 py-1 text-xs text-white/80 transition hover:border-white/30 hover:bg-white/10 disabled:cursor-not-allowed disabled:opacity-40"
+                >
+                  Pas
+                </button>
+                <button
+                  type="button"
+                  disabled={!mesh}
+                  onClick={() => {
+                    setIsMeshing(false);
+                    setMeshRun(null);
+                  }}
+                  className="rounded-lg border border-white/10 bg-white/5 px-2 py-1 text-xs text-white/80 transition hover:border-white/30 hover:bg-white/10 disabled:cursor-not-allowed disabled:opacity-40"
+                >
+                  Effacer
+                </button>
+                <span className="text-xs text-white/60">
+                  {mesh
+                    ? `Points de Steiner : ${mesh.steps}${mesh.done ? " (terminé)" : ""}`
+                    : "Déplacer un point réinitialise le maillage"}
+                </span>
+              </div>
+              <div className="flex flex-wrap items-center gap-4">
+                <span className="text-xs text-white/70">Angle min.</span>
+                <input
+                  type="range"
+                  min={0}
+                  max={MESH_MIN_ANGLE_MAX}
+                  step={1}
+                  value={meshMinAngle}
+                  onChange={(event) =>
+                    setMeshMinAngle(Number(event.target.value))
+                  }
+                  className="flex-1 accent-cyan-300"
+                />
+                <span className="min-w-[70px] text-right text-xs font-medium text-white">
+                  {meshMinAngle}°
+                </span>
+                <span className="text-xs text-white/70">Aire max.</span>
+                <input
+                  type="range"
+                  min={MESH_MAX_AREA_MIN}
+                  max={MESH_MAX_AREA_MAX}
+                  step={100}
+                  value={meshMaxArea}
+                  onChange={(event) =>
+                    setMeshMaxArea(Number(event.target.value))
+                  }
+                  className="flex-1 accent-cyan-300"
+                />
+                <span className="min-w-[70px] text-right text-xs font-medium text-white">
+                  {meshMaxArea} px²
+                </span>
+              </div>
+              {meshQuality ? (
+                <div className="flex flex-wrap items-end gap-6">
+                  {[
+                    {
+                      label: "Angle minimal (0–60°)",
+                      counts: meshQuality.angleHistogram,
+                      threshold: meshMinAngle / 60,
+                    },
+                    {
+                      label: `Aire (0–${meshMaxArea} px²)`,
+                      counts: meshQuality.areaHistogram,
+                      threshold: null,
+                    },
+                  ].map(({ label, counts, threshold }) => {
+                    const peak = Math.max(1, ...counts);
+                    return (
+                      <div key={label} className="flex flex-col gap-1">
+                        <span className="text-xs text-white/60">{label}</span>
+                        <svg
+                          viewBox={`0 0 ${MESH_HISTOGRAM_BINS} 30`}
+                          preserveAspectRatio="none"
+                          className="h-10 w-40 rounded border border-white/10 bg-slate-950/60"
+                        >
+                          {counts.map((count, bin) => (
+                            <rect
+                              key={bin}
+                              x={bin + 0.1}
+                              y={30 - (count / peak) * 28}
+                              width={0.8}
+                              height={(count / peak) * 28}
+                              fill="rgb(103, 232, 249)"
+                            />
+                          ))}
+                          {threshold !== null ? (
+                            <line
+                              x1={threshold * MESH_HISTOGRAM_BINS}
+                              x2={threshold * MESH_HISTOGRAM_BINS}
+                              y1={0}
+                              y2={30}
+                              stroke="rgb(248, 113, 113)"
+                              strokeWidth={1.2}
+                              vectorEffect="non-scaling-stroke"
+                            />
+                          ) : null}
+                        </svg>
+                      </div>
+                    );
+                  })}
+                </div>
+              ) : null}
+            </div>
+          ) : null}
+          {mode === "crust" ? (
+            <label className="flex items-center gap-3 rounded-xl border border-white/10 bg-white/5 px-4 py-3 text-xs text-white/70">
+              <input
+                type="checkbox"
+                checked={overlays.showVoronoiVertices}
+                onChange={(event) =>
+                  setOverlays((previous) => ({
+                    ...previous,
+                    showVoronoiVertices: event.target.checked,
+                  }))
+                }
+                className="accent-cyan-300"
+              />
+              Afficher les sommets de Voronoï ajoutés
+            </label>
+          ) : null}
         </div>
       </div>
 
@@ -820,22 +2433,275 @@ export const VoronoiCanvas = () => {
         <div className="pointer-events-none absolute left-6 top-6 max-w-xs text-xs leading-relaxed text-slate-200/70">
           Cliquez pour ajouter un point, maintenez et déplacez pour ajuster la
           géométrie.
+          {WEIGHTED_MODES.includes(mode)
+            ? " Alt + glisser sur un point règle son poids."
+            : ""}
+          {mode === "cdt"
+            ? " Maj + glisser entre deux points ajoute une contrainte."
+            : ""}
         </div>
 
+        {/* Hover Label */}
+        {mode === "order-k" && hoverPosition !== null && points.length ? (
+          <div
+            className="pointer-events-none absolute rounded-lg border border-white/10 bg-slate-950/80 px-2 py-1 text-xs text-white/80"
+            style={{ left: hoverPosition.x + 14, top: hoverPosition.y + 14 }}
+          >
+            {"{"}
+            {findKNearestSites(
+              points,
+              hoverPosition.x,
+              hoverPosition.y,
+              effectiveOrderK
+            )
+              .map((index) => `#${index + 1}`)
+              .join(", ")}
+            {"}"}
+          </div>
+        ) : null}
+
+        {highlightedMedialVertex && hoverPosition !== null ? (
+          <div
+            className="pointer-events-none absolute rounded-lg border border-white/10 bg-slate-950/80 px-2 py-1 text-xs text-white/80"
+            style={{ left: hoverPosition.x + 14, top: hoverPosition.y + 14 }}
+          >
+            Disque inscrit : r ≈ {highlightedMedialVertex.radius.toFixed(1)} px,
+            λ ≈ {highlightedMedialVertex.lambda.toFixed(1)} px
+          </div>
+        ) : null}
+
+        {hoveredAdaptiveTriangle && hoverPosition !== null ? (
+          <div
+            className="pointer-events-none absolute rounded-lg border border-white/10 bg-slate-950/80 px-2 py-1 text-xs text-white/80"
+            style={{ left: hoverPosition.x + 14, top: hoverPosition.y + 14 }}
+          >
+            R ≈ {hoveredAdaptiveTriangle.circumradius.toFixed(1)} px
+            {hoveredAdaptiveTriangle.circumradius <=
+            hoveredAdaptiveTriangle.alpha
+              ? " ≤ "
+              : " > "}
+            α local ≈ {hoveredAdaptiveTriangle.alpha.toFixed(1)} px
+            {hoveredAdaptiveTriangle.circumradius <=
+            hoveredAdaptiveTriangle.alpha
+              ? " : gardé"
+              : " : écarté"}
+          </div>
+        ) : null}
+
         {/* Stats Overlay */}
         <div className="pointer-events-none absolute bottom-6 right-6 flex flex-col items-end gap-1 text-xs text-white/60">
           <span>Mode : {modeMeta?.label ?? ""}</span>
-          {isAlphaMode ? (
+          {isAdaptiveAlpha ? (
+            <span>Facteur α = × {alphaMultiplier.toFixed(2)}</span>
+          ) : usesAlphaSlider ? (
             <span>Rayon α ≈ {Math.round(alphaRadius)} px</span>
           ) : null}
+          {derived.medialAxis ? (
+            <span>
+              Axe médian : {derived.medialAxis.vertices.length} sommets,{" "}
+              {derived.medialAxis.edges.length} arêtes
+            </span>
+          ) : null}
+          {mode === "beta-skeleton" ? (
+            <span>
+              β = {betaLabel} ({betaVariant === "lune" ? "lunule" : "cercles"})
+            </span>
+          ) : null}
           <span>Points : {points.length}</span>
-          {mode === "voronoi" || mode === "voronoi-bruteforce" ? (
+          {mode === "voronoi" ? (
             <span>Cellules : {derived.voronoiCells.length}</span>
-          ) : mode === "alpha-complex" ? (
-            <span>Triangles : {derived.alphaTriangles.length}</span>
+          ) : RASTER_MODES.includes(mode) ? (
+            <>
+              <span>
+                Cellules :{" "}
+                {derived.rasterCellSizes?.filter((size) => size > 0).length ?? 0}
+              </span>
+              {WEIGHTED_MODES.includes(mode) && derived.rasterCellSizes ? (
+                <span>
+                  Sites masqués :{" "}
+                  {derived.rasterCellSizes.filter((size) => size === 0).length}
+                </span>
+              ) : null}
+            </>
+          ) : mode === "power" ? (
+            <>
+              <span>
+                Cellules :{" "}
+                {derived.voronoiCells.filter((cell) => cell.length).length}
+              </span>
+              <span>
+                Sites masqués :{" "}
+                {derived.voronoiCells.filter((cell) => !cell.length).length}
+              </span>
+            </>
+          ) : derived.concaveHull ? (
+            <>
+              <span>Sommets du polygone : {derived.concaveHull.ring.length}</span>
+              <span>
+                A ≈ {Math.round(derived.concaveHull.area)} px², P ≈{" "}
+                {Math.round(derived.concaveHull.perimeter)} px
+              </span>
+              {derived.concaveHull.k !== null ? (
+                <span>
+                  k effectif : {derived.concaveHull.k}
+                  {derived.concaveHull.k > concaveK ? " (augmenté)" : ""}
+                </span>
+              ) : null}
+            </>
+          ) : isAdaptiveAlpha ? (
+            <>
+              <span>Triangles : {derived.alphaTriangles.length}</span>
+              <span>Arêtes de bord : {derived.graphEdges.length}</span>
+              <span>
+                Sommets isolés : {derived.isolatedVertices?.length ?? 0}
+              </span>
+            </>
+          ) : isAlphaMode ? (
+            <>
+              {mode === "alpha-complex" ? (
+                <span>Triangles : {derived.alphaTriangles.length}</span>
+              ) : null}
+              <span>Arêtes : {derived.graphEdges.length}</span>
+              <span>
+                Sommets isolés : {derived.isolatedVertices?.length ?? 0}
+              </span>
+              {derived.alphaComponents ? (
+                <>
+                  <span>
+                    β0 = {derived.alphaComponents.length}, β1 ={" "}
+                    {derived.alphaComponents.reduce(
+                      (sum, component) => sum + component.betti[1],
+                      0
+                    )}
+                  </span>
+                  {derived.alphaComponents
+                    .filter((component) => component.polygons.length)
+                    .slice(0, ALPHA_COMPONENTS_LISTED)
+                    .map((component, index) => (
+                      <span key={index}>
+                        #{index + 1} : A ≈ {Math.round(component.area)} px², P ≈{" "}
+                        {Math.round(component.perimeter)} px, β = (
+                        {component.betti[0]}, {component.betti[1]})
+                      </span>
+                    ))}
+                </>
+              ) : null}
+            </>
+          ) : mode === "order-k" ? (
+            <>
+              <span>k = {effectiveOrderK}</span>
+              <span>Régions : {derived.orderKRegions?.length ?? 0}</span>
+            </>
+          ) : mode === "farthest" ? (
+            <>
+              <span>
+                Cellules :{" "}
+                {derived.voronoiCells.filter((cell) => cell.length).length}
+              </span>
+              {derived.enclosingCircle ? (
+                <span>
+                  Cercle minimal : r ≈{" "}
+                  {Math.round(derived.enclosingCircle.radius)} px
+                </span>
+              ) : null}
+            </>
+          ) : mode === "hull" ? (
+            <>
+              <span>Enveloppe : {derived.hullIndices?.length ?? 0} sommets</span>
+              <span>Couches : {convexLayerCount}</span>
+            </>
+          ) : mode === "cdt" ? (
+            <>
+              <span>
+                Triangles : {(derived.triangulation?.triangles.length ?? 0) / 3}
+              </span>
+              <span>
+                Contraintes : {derived.constraintEdges?.length ?? 0} arêtes
+              </span>
+              {derived.triangulation?.rejected.length ? (
+                <span className="text-red-300/80">
+                  Segments rejetés (croisement) :{" "}
+                  {derived.triangulation.rejected.length}
+                </span>
+              ) : null}
+              <span className="text-red-300/80">
+                Triangles non Delaunay :{" "}
+                {derived.nonDelaunayTriangles?.length ?? 0}
+              </span>
+            </>
+          ) : mode === "mesh" ? (
+            <>
+              <span>Bord : {derived.graphEdges.length} segments</span>
+              {mesh && meshQuality ? (
+                <>
+                  <span>
+                    Sommets : {mesh.vertices.length} (dont{" "}
+                    {mesh.vertices.length - mesh.inputCount} de Steiner)
+                  </span>
+                  <span>Triangles : {meshQuality.triangleCount}</span>
+                  <span
+                    className={
+                      meshQuality.minAngle < meshMinAngle
+                        ? "text-red-300/80"
+                        : "text-emerald-300/80"
+                    }
+                  >
+                    Angle minimal : {meshQuality.minAngle.toFixed(1)}°
+                  </span>
+                  {mesh.vertices.length >= MESH_MAX_VERTICES ? (
+                    <span className="text-red-300/80">
+                      Limite de {MESH_MAX_VERTICES} sommets atteinte
+                    </span>
+                  ) : null}
+                </>
+              ) : null}
+            </>
+          ) : mode === "stipple" ? (
+            <span>Points de trame : {overlays.stipples.length}</span>
+          ) : mode === "crust" ? (
+            <>
+              <span>Arêtes : {derived.graphEdges.length}</span>
+              <span>
+                Sommets de Voronoï : {derived.voronoiVertices?.length ?? 0}
+              </span>
+            </>
           ) : (
             <span>Arêtes : {derived.graphEdges.length}</span>
           )}
+          {derived.circleAnalysis ? (
+            <>
+              <span className="text-emerald-300/80">
+                Cercle vide maximal :{" "}
+                {derived.circleAnalysis.largestEmptyCircle
+                  ? `r ≈ ${derived.circleAnalysis.largestEmptyCircle.radius.toFixed(1)} px`
+                  : "—"}
+              </span>
+              <span className="text-amber-300/80">
+                Cercle englobant minimal :{" "}
+                {derived.circleAnalysis.enclosingCircle
+                  ? `r ≈ ${derived.circleAnalysis.enclosingCircle.radius.toFixed(1)} px`
+                  : "—"}
+              </span>
+              <span className="text-pink-300/80">
+                Diamètre :{" "}
+                {derived.circleAnalysis.calipers
+                  ? `${derived.circleAnalysis.calipers.diameter.length.toFixed(1)} px`
+                  : "—"}
+              </span>
+              <span className="text-indigo-300/80">
+                Largeur :{" "}
+                {derived.circleAnalysis.calipers
+                  ? `${derived.circleAnalysis.calipers.width.length.toFixed(1)} px`
+                  : "—"}
+              </span>
+            </>
+          ) : null}
+          {mode === "voronoi" && relaxIterations > 0 ? (
+            <span>
+              Itérations de Lloyd : {relaxIterations}
+              {isRelaxing ? "" : " (en pause)"}
+            </span>
+          ) : null}
           <span>Animation : 30 fps</span>
           {backgroundImage ? (
             <span className="text-cyan-300/80">Image chargée</span>
@@ -861,7 +2727,7 @@ export const VoronoiCanvas = () => {
       </div>
 
       {/* Image Controls */}
-      {(mode === "voronoi" || mode === "voronoi-bruteforce") && (
+      {(isVoronoiFamily || mode === "stipple") && (
         <div className="rounded-3xl border border-white/10 bg-slate-950/70 p-4 backdrop-blur">
           <div className="flex flex-wrap items-center gap-3">
             <input
@@ -897,10 +2763,43 @@ export const VoronoiCanvas = () => {
               Télécharger
             </button>
 
+            {derived.distanceField ? (
+              <button
+                type="button"
+                onClick={handleDownloadDistanceField}
+                className="rounded-xl border border-cyan-300/30 bg-cyan-300/10 px-4 py-2 text-sm text-cyan-300 transition hover:border-cyan-300/50 hover:bg-cyan-300/20"
+              >
+                PNG 16 bits
+              </button>
+            ) : null}
+
+            {WEIGHTED_MODES.includes(mode) ? (
+              <button
+                type="button"
+                disabled={!points.length}
+                onClick={handleDownloadSites}
+                className="rounded-xl border border-cyan-300/30 bg-cyan-300/10 px-4 py-2 text-sm text-cyan-300 transition hover:border-cyan-300/50 hover:bg-cyan-300/20 disabled:cursor-not-allowed disabled:opacity-40"
+              >
+                Sites et poids (GeoJSON)
+              </button>
+            ) : null}
+
+            {mode === "stipple" && overlays.stipples.length ? (
+              <button
+                type="button"
+                onClick={handleDownloadSvg}
+                className="rounded-xl border border-cyan-300/30 bg-cyan-300/10 px-4 py-2 text-sm text-cyan-300 transition hover:border-cyan-300/50 hover:bg-cyan-300/20"
+              >
+                Télécharger SVG
+              </button>
+            ) : null}
+
             <span className="ml-auto text-xs text-white/50">
-              {backgroundImage
-                ? "Les couleurs des cellules sont calculées depuis l'image"
-                : "Chargez une image pour colorier les cellules Voronoï"}
+              {mode === "stipple"
+                ? "Les points suivent la densité sombre de l'image"
+                : backgroundImage
+                  ? "Les couleurs des cellules sont calculées depuis l'image"
+                  : "Chargez une image pour colorier les cellules Voronoï"}
             </span>
           </div>
         </div>
@@ -349,7 +349,7 @@ export default function Documentation() {
                         </button> : Triangles satisfaisant la contrainte α
                       </li>
                       <li>
-                        <strong className="text-cyan-300">Gabriel, RNG, MST, NN-crust</strong> : Autres graphes (actuellement désactivés)
+                        <strong className="text-cyan-300">Gabriel, RNG, MST, NN-crust</strong> : Graphes de proximité calculés sur la triangulation de Delaunay
                       </li>
                     </ul>
                   </div>
@@ -576,8 +576,8 @@ export default function Documentation() {
 
                   <div className="text-sm text-white/60 rounded-lg border border-white/10 bg-white/5 p-4">
                     <p>
-                      <strong>Note :</strong> Les modes Gabriel, RNG, NN-crust et MST seront activés dans les prochaines versions.
-                      Ils permettront d'explorer d'autres types de graphes géométriques.
+                      <strong>Note :</strong> Les modes Gabriel, RNG, NN-crust et MST ne testent que les voisins de Delaunay
+                      et construisent l'ARM par Kruskal, ce qui reste fluide avec plusieurs centaines de points.
                     </p>
                   </div>
                 </section>
@@ -2096,12 +2096,17 @@ export default function Documentation() {
                       </li>
                       <li className="flex gap-2">
                         <span>3.</span>
-                        <span>Extraire les <strong className="text-white">arêtes au contour</strong> (arêtes limites)</span>
+                        <span>Chaque arête de Delaunay entre à la moitié de sa longueur si son disque diamétral est vide, sinon avec son premier triangle : elle peut faire partie de l&apos;alpha-complex sans aucun triangle</span>
+                      </li>
+                      <li className="flex gap-2">
+                        <span>4.</span>
+                        <span>Extraire les <strong className="text-white">arêtes au contour</strong> (arêtes limites) et les arêtes pendantes</span>
                       </li>
                     </ol>
 
                     <p className="text-white/70 leading-relaxed mt-4 mb-3">
-                      <strong className="text-white">Arête au contour :</strong> une arête qui n'existe que dans UN seul triangle du sous-ensemble alpha-complex
+                      <strong className="text-white">Arête au contour :</strong> une arête qui n&apos;existe que dans UN seul triangle du sous-ensemble alpha-complex.{" "}
+                      <strong className="text-white">Arête pendante :</strong> une arête de l&apos;alpha-complex dans aucun triangle. Les points sans aucune arête restent des sommets isolés du complexe.
                     </p>
                   </div>
 
@@ -2110,7 +2115,7 @@ export default function Documentation() {
 
                     <div className="rounded-lg border border-cyan-300/20 bg-cyan-300/5 p-4 mb-4">
                       <p className="text-white/70 text-sm mb-3 font-mono">
-                        <strong className="text-cyan-300">Code : computeAlphaData() — geometry-algorithms.ts (lines 165-230)</strong>
+                        <strong className="text-cyan-300">Code : computeAlphaData() — geometry-algorithms.ts</strong>
                       </p>
                       <pre className="text-xs text-white/60 overflow-x-auto whitespace-pre-wrap break-words">
 {`export const computeAlphaData = (
@@ -2118,65 +2123,38 @@ export default function Documentation() {
   delaunay: Delaunay<Point>,
   alpha: number
 ): AlphaData => {
-  const triangles = delaunay.triangles;
-  const alphaTriangles: TriangleIndex[] = [];
-  const edgeCount = new Map<string, number>();
-
-  // Collect triangles within alpha threshold
-  for (let index = 0; index < triangles.length; index += 3) {
-    const i0 = triangles[index];
-    const i1 = triangles[index + 1];
-    const i2 = triangles[index + 2];
-
-    if (
-      i0 === undefined ||
-      i1 === undefined ||
-      i2 === undefined ||
-      i0 === i1 || i1 === i2 || i2 === i0
-    ) {
-      continue;
+  // Every Delaunay simplex with the radius at which it enters
+  const filtration = computeAlphaFiltration(points, delaunay);
+  const data: AlphaData = { ... };
+
+  for (const { triangle, value } of filtration.triangles) {
+    if (value <= alpha) {
+      data.triangles.push(triangle);
+      data.triangleValues.push(value);
     }
+  }
 
-    const p0 = points[i0];
-    const p1 = points[i1];
-    const p2 = points[i2];
-
-    // Calculate circumradius of the triangle
-    const radius = circumradius(
-      p0.x, p0.y,
-      p1.x, p1.y,
-      p2.x, p2.y
-    );
-
-    // Filter by alpha threshold
-    if (!Number.isFinite(radius) || radius > alpha) {
+  for (const { edge, value, faces } of filtration.edges) {
+    if (value > alpha) {
       continue;
     }
-
-    alphaTriangles.push([i0, i1, i2]);
-
-    // Count edge occurrences in alpha triangles
-    const e1 = edgeKey(i0, i1);
-    const e2 = edgeKey(i1, i2);
-    const e3 = edgeKey(i2, i0);
-    edgeCount.set(e1, (edgeCount.get(e1) ?? 0) + 1);
-    edgeCount.set(e2, (edgeCount.get(e2) ?? 0) + 1);
-    edgeCount.set(e3, (edgeCount.get(e3) ?? 0) + 1);
+    data.allEdges.push(edge);
+    data.edgeValues.push(value);
+
+    // A triangle always enters after its edges, so counting is enough
+    const cofaces = faces.filter(
+      (face) => face !== -1 && filtration.triangles[face].value <= alpha
+    ).length;
+    if (cofaces === 1) {
+      data.boundaryEdges.push(edge);
+    } else if (cofaces === 0) {
+      data.danglingEdges.push(edge);
+    }
   }
 
-  // All edges in the alpha-complex
-  const allEdges = Array.from(edgeCount.keys(), decodeEdgeKey);
-
-  // Boundary edges (alpha-shape): edges in exactly one triangle
-  const boundaryEdges = Array.from(edgeCount.entries())
-    .filter(([, count]) => count === 1)
-    .map(([key]) => decodeEdgeKey(key));
-
-  return {
-    triangles: alphaTriangles,
-    allEdges,
-    boundaryEdges,
-  };
+  // Points without any edge: isolated vertices
+  ...
+  return data;
 };`}
                       </pre>
                     </div>
@@ -2265,9 +2243,13 @@ export default function Documentation() {
                       </p>
                       <pre className="text-xs text-white/60 overflow-x-auto whitespace-pre-wrap break-words">
 {`return {
-  triangles: alphaTriangles,      // All triangles with circumradius ≤ α
-  allEdges,                       // All edges from these triangles (ALPHA-COMPLEX)
-  boundaryEdges,                  // Only boundary edges (ALPHA-SHAPE)
+  triangles,         // All triangles with circumradius ≤ α
+  triangleValues,    // Their filtration values
+  allEdges,          // All edges entering at ≤ α (ALPHA-COMPLEX)
+  edgeValues,        // Their filtration values
+  boundaryEdges,     // Edges in exactly one triangle (ALPHA-SHAPE)
+  danglingEdges,     // Edges in no triangle (ALPHA-SHAPE)
+  isolatedVertices,  // Points without any edge
 };`}
                       </pre>
                     </div>
@@ -2278,11 +2260,11 @@ export default function Documentation() {
                     <ul className="space-y-2 text-white/70 ml-4">
                       <li className="flex gap-2">
                         <span>•</span>
-                        <span><strong className="text-white">Alpha-Shape mode</strong> : Utilise boundaryEdges (count === 1)</span>
+                        <span><strong className="text-white">Alpha-Shape mode</strong> : Utilise boundaryEdges (1 triangle) et danglingEdges (0 triangle)</span>
                       </li>
                       <li className="flex gap-2">
                         <span>•</span>
-                        <span><strong className="text-white">Alpha-Complex mode</strong> : Utilise allEdges (count ≥ 1)</span>
+                        <span><strong className="text-white">Alpha-Complex mode</strong> : Utilise allEdges (0, 1 ou 2 triangles)</span>
                       </li>
                     </ul>
                   </div>
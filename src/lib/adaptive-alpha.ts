@@ -0,0 +1,202 @@
+/**
+ * @fileoverview Locally adaptive (conformal) alpha shapes
+ * A single α cannot fit both dense and sparse regions of a sample. Each point
+ * gets a local feature size instead, and every simplex of the alpha filtration
+ * is divided by the mean size of its vertices: the global α then acts as a
+ * dimensionless multiplier of the local scale.
+ */
+
+import { Delaunay } from "d3-delaunay";
+import { EPSILON } from "./constants";
+import {
+  AdaptiveAlphaTriangle,
+  AlphaFiltration,
+  LocalScaleEstimator,
+  Point,
+} from "./types";
+import { circumcenter } from "./math-utils";
+
+/**
+ * Mean distance from a point to its k nearest neighbours
+ * Best-first search on the Delaunay graph: the i-th nearest neighbour is a
+ * Delaunay neighbour of the point or of one of its i − 1 nearest neighbours,
+ * so the expansion finds them exactly.
+ * @param points - Point set
+ * @param delaunay - Delaunay triangulation
+ * @param index - Point index
+ * @param k - Number of neighbours
+ * @returns Mean neighbour distance (0 without neighbours)
+ */
+const nearestNeighbourScale = (
+  points: Point[],
+  delaunay: Delaunay<Point>,
+  index: number,
+  k: number
+): number => {
+  const origin = points[index];
+  const seen = new Set<number>([index]);
+  const frontier: Array<{ index: number; distance: number }> = [];
+  const expand = (from: number) => {
+    for (const neighbour of delaunay.neighbors(from)) {
+      if (seen.has(neighbour)) {
+        continue;
+      }
+      seen.add(neighbour);
+      const point = points[neighbour];
+      frontier.push({
+        index: neighbour,
+        distance: Math.hypot(point.x - origin.x, point.y - origin.y),
+      });
+    }
+  };
+  expand(index);
+
+  let total = 0;
+  let found = 0;
+  while (found < k && frontier.length) {
+    let best = 0;
+    for (let i = 1; i < frontier.length; i += 1) {
+      if (frontier[i].distance < frontier[best].distance) {
+        best = i;
+      }
+    }
+    const [nearest] = frontier.splice(best, 1);
+    total += nearest.distance;
+    found += 1;
+    expand(nearest.index);
+  }
+  return found ? total / found : 0;
+};
+
+/**
+ * Distance from every point to its pole, the farthest vertex of its Voronoi
+ * cell, which approximates the distance to the medial axis
+ * Hull points have an unbounded cell (pole at infinity) and get NaN.
+ * @param points - Point set
+ * @param delaunay - Delaunay triangulation
+ * @returns Pole distance per point
+ */
+const poleDistances = (
+  points: Point[],
+  delaunay: Delaunay<Point>
+): Float64Array => {
+  const { triangles } = delaunay;
+  const distances = new Float64Array(points.length);
+  for (let index = 0; index < triangles.length; index += 3) {
+    const [a, b, c] = [0, 1, 2].map((k) => points[triangles[index + k]]);
+    const center = circumcenter(a, b, c);
+    if (!center) {
+      continue;
+    }
+    for (let k = 0; k < 3; k += 1) {
+      const vertex = triangles[index + k];
+      const point = points[vertex];
+      distances[vertex] = Math.max(
+        distances[vertex],
+        Math.hypot(center[0] - point.x, center[1] - point.y)
+      );
+    }
+  }
+  for (const vertex of delaunay.hull) {
+    distances[vertex] = NaN;
+  }
+  return distances;
+};
+
+/**
+ * Estimates the local feature size of every point
+ * Hull points fall back to the k-nearest-neighbour estimate with the pole
+ * estimator, since their pole lies at infinity.
+ * @param points - Point set
+ * @param delaunay - Delaunay triangulation
+ * @param estimator - Estimation method
+ * @param neighbours - Number of neighbours of the k-NN estimate
+ * @returns Local feature size per point (px)
+ */
+export const computeLocalScales = (
+  points: Point[],
+  delaunay: Delaunay<Point>,
+  estimator: LocalScaleEstimator,
+  neighbours: number
+): Float64Array => {
+  const poles = estimator === "poles" ? poleDistances(points, delaunay) : null;
+  return Float64Array.from(points, (_, index) => {
+    const scale =
+      poles && Number.isFinite(poles[index]) && poles[index] > 0
+        ? poles[index]
+        : nearestNeighbourScale(points, delaunay, index, neighbours);
+    return Math.max(scale, EPSILON);
+  });
+};
+
+/**
+ * Mean local feature size of the vertices of a simplex
+ * @param scales - Local feature size per point
+ * @param vertices - Simplex vertex indices
+ * @returns Mean size
+ */
+export const simplexScale = (
+  scales: Float64Array,
+  vertices: readonly number[]
+): number =>
+  vertices.reduce((sum, vertex) => sum + scales[vertex], 0) / vertices.length;
+
+/**
+ * Divides the alpha filtration by the local feature sizes
+ * Triangles enter at circumradius / scale. An unattached edge enters at
+ * half its length / scale, but never after its cofaces so that the result
+ * stays a filtration of simplicial complexes; attached edges keep entering
+ * with their first triangle.
+ * @param filtration - Alpha filtration in pixels
+ * @param scales - Local feature size per point
+ * @returns Dimensionless filtration
+ */
+export const normalizeFiltration = (
+  filtration: AlphaFiltration,
+  scales: Float64Array
+): AlphaFiltration => {
+  const triangles = filtration.triangles.map(({ triangle, value }) => ({
+    triangle,
+    value: value / simplexScale(scales, triangle),
+  }));
+  const edges = filtration.edges.map(({ edge, value, faces }) => {
+    const cofaces = faces.filter((face) => face !== -1);
+    const firstFace = Math.min(
+      ...cofaces.map((face) => triangles[face].value)
+    );
+    const attached = cofaces.some(
+      (face) => filtration.triangles[face].value <= value
+    );
+    return {
+      edge,
+      value: attached
+        ? firstFace
+        : Math.min(firstFace, value / simplexScale(scales, edge)),
+      faces,
+    };
+  });
+  return { edges, triangles };
+};
+
+/**
+ * Finds the adaptive triangle under a position (used for hover labels)
+ * @param points - Point set
+ * @param triangles - Delaunay triangles with their local α
+ * @param x - X coordinate
+ * @param y - Y coordinate
+ * @returns Triangle containing the position, null outside the hull
+ */
+export const findAdaptiveTriangle = (
+  points: Point[],
+  triangles: AdaptiveAlphaTriangle[],
+  x: number,
+  y: number
+): AdaptiveAlphaTriangle | null =>
+  triangles.find(({ triangle }) => {
+    const sides = [0, 1, 2].map((k) => {
+      const a = points[triangle[k]];
+      const b = points[triangle[(k + 1) % 3]];
+      return (b.x - a.x) * (y - a.y) - (b.y - a.y) * (x - a.x);
+    });
+    return sides.every((side) => side >= 0) || sides.every((side) => side <= 0);
+  }) ?? null;
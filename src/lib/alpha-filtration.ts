@@ -0,0 +1,293 @@
+/**
+ * @fileoverview Alpha filtration and its persistent homology
+ * Orders every Delaunay simplex by the radius at which it enters the alpha
+ * complex, then pairs births and deaths:
+ * - H0 (components): Kruskal-style union-find on the edges
+ * - H1 (holes): union-find on the dual graph (triangles and the outer face)
+ *   in decreasing order, an edge merging two dual regions creates the hole
+ *   that dies with the last triangle of the younger region
+ */
+
+import { Delaunay } from "d3-delaunay";
+import {
+  AlphaFiltration,
+  AlphaStrategy,
+  FiltrationEdge,
+  FiltrationTriangle,
+  PersistenceInterval,
+  Point,
+} from "./types";
+import { circumradius, nextHalfedge } from "./math-utils";
+
+/**
+ * Computes the alpha filtration of the Delaunay triangulation
+ * A triangle enters at its circumradius. An edge enters at half its length
+ * when its diametral circle is empty (unattached edge), otherwise with its
+ * first adjacent triangle.
+ * @param points - Point set
+ * @param delaunay - Delaunay triangulation of the points
+ * @returns Filtration edges and triangles (unsorted)
+ */
+export const computeAlphaFiltration = (
+  points: Point[],
+  delaunay: Delaunay<Point>
+): AlphaFiltration => {
+  const { triangles: indices, halfedges } = delaunay;
+  const triangles: FiltrationTriangle[] = [];
+  for (let index = 0; index < indices.length; index += 3) {
+    const a = points[indices[index]];
+    const b = points[indices[index + 1]];
+    const c = points[indices[index + 2]];
+    const radius = circumradius(a.x, a.y, b.x, b.y, c.x, c.y);
+    triangles.push({
+      triangle: [indices[index], indices[index + 1], indices[index + 2]],
+      value: Number.isFinite(radius) ? radius : Infinity,
+    });
+  }
+
+  const edges: FiltrationEdge[] = [];
+  for (let e = 0; e < indices.length; e += 1) {
+    const twin = halfedges[e];
+    if (twin !== -1 && twin < e) {
+      continue;
+    }
+    const i = indices[e];
+    const j = indices[nextHalfedge(e)];
+    const a = points[i];
+    const b = points[j];
+    const mx = (a.x + b.x) / 2;
+    const my = (a.y + b.y) / 2;
+    const halfLength = Math.hypot(a.x - b.x, a.y - b.y) / 2;
+    const faces: [number, number] = [
+      Math.floor(e / 3),
+      twin === -1 ? -1 : Math.floor(twin / 3),
+    ];
+
+    // Only the opposite vertices of the adjacent triangles can encroach
+    let attached = false;
+    let firstFace = Infinity;
+    for (const [halfedge, face] of [
+      [e, faces[0]],
+      [twin, faces[1]],
+    ]) {
+      if (halfedge === -1) {
+        continue;
+      }
+      const apex = points[indices[nextHalfedge(nextHalfedge(halfedge))]];
+      if (Math.hypot(apex.x - mx, apex.y - my) < halfLength) {
+        attached = true;
+      }
+      firstFace = Math.min(firstFace, triangles[face].value);
+    }
+
+    edges.push({
+      edge: [i, j],
+      value: attached ? firstFace : halfLength,
+      faces,
+    });
+  }
+
+  return { edges, triangles };
+};
+
+/**
+ * Union-find with member lists, merging the smaller list into the larger
+ */
+type MemberSets = {
+  parent: Int32Array;
+  members: number[][];
+};
+
+/**
+ * Creates singleton sets
+ * @param count - Number of elements
+ * @returns Union-find structure
+ */
+const createMemberSets = (count: number): MemberSets => ({
+  parent: Int32Array.from({ length: count }, (_, index) => index),
+  members: Array.from({ length: count }, (_, index) => [index]),
+});
+
+/**
+ * Finds the representative of an element, compressing the path
+ * @param sets - Union-find structure
+ * @param index - Element
+ * @returns Root element
+ */
+const findRoot = (sets: MemberSets, index: number): number => {
+  let root = index;
+  while (sets.parent[root] !== root) {
+    root = sets.parent[root];
+  }
+  while (sets.parent[index] !== root) {
+    const next = sets.parent[index];
+    sets.parent[index] = root;
+    index = next;
+  }
+  return root;
+};
+
+/**
+ * Attaches the set of root `child` to root `parent`
+ * @param sets - Union-find structure
+ * @param child - Root of the absorbed set
+ * @param parent - Root of the absorbing set
+ */
+const attachRoot = (sets: MemberSets, child: number, parent: number): void => {
+  sets.parent[child] = parent;
+  const target = sets.members[parent];
+  for (const member of sets.members[child]) {
+    target.push(member);
+  }
+  sets.members[child] = [];
+};
+
+/**
+ * Computes the 0- and 1-dimensional persistence of the alpha filtration
+ * Zero-length intervals (edges entering with a triangle that fills them
+ * immediately) are dropped.
+ * @param points - Point set
+ * @param filtration - Alpha filtration of the points
+ * @returns Persistence intervals, components first
+ */
+export const computeAlphaPersistence = (
+  points: Point[],
+  filtration: AlphaFiltration
+): PersistenceInterval[] => {
+  const intervals: PersistenceInterval[] = [];
+  if (points.length === 0) {
+    return intervals;
+  }
+  const order = filtration.edges
+    .map((_, index) => index)
+    .sort((a, b) => filtration.edges[a].value - filtration.edges[b].value);
+
+  // H0: every point is born at 0, the smaller component dies on merge
+  const components = createMemberSets(points.length);
+  const negative = new Uint8Array(filtration.edges.length);
+  for (const index of order) {
+    const { edge, value } = filtration.edges[index];
+    let a = findRoot(components, edge[0]);
+    let b = findRoot(components, edge[1]);
+    if (a === b) {
+      continue;
+    }
+    negative[index] = 1;
+    if (components.members[a].length > components.members[b].length) {
+      [a, b] = [b, a];
+    }
+    if (value > 0) {
+      intervals.push({
+        dimension: 0,
+        birth: 0,
+        death: value,
+        edge,
+        vertices: components.members[a].slice(),
+        triangles: [],
+      });
+    }
+    attachRoot(components, a, b);
+  }
+  const roots = new Set(points.map((_, index) => findRoot(components, index)));
+  for (const root of roots) {
+    intervals.push({
+      dimension: 0,
+      birth: 0,
+      death: Infinity,
+      edge: null,
+      vertices: components.members[root].slice(),
+      triangles: [],
+    });
+  }
+
+  // H1: the dual graph grows backwards from the outer face (last index)
+  const triangleCount = filtration.triangles.length;
+  const outer = triangleCount;
+  const regions = createMemberSets(triangleCount + 1);
+  const eldest = Float64Array.from({ length: triangleCount + 1 }, (_, index) =>
+    index === outer ? Infinity : filtration.triangles[index].value
+  );
+  for (let k = order.length - 1; k >= 0; k -= 1) {
+    const index = order[k];
+    if (negative[index]) {
+      continue;
+    }
+    const { edge, value, faces } = filtration.edges[index];
+    let a = findRoot(regions, faces[0] === -1 ? outer : faces[0]);
+    let b = findRoot(regions, faces[1] === -1 ? outer : faces[1]);
+    if (a === b) {
+      continue;
+    }
+    // Elder rule: the region whose last triangle enters first dies
+    if (eldest[a] > eldest[b] || a === outer) {
+      [a, b] = [b, a];
+    }
+    if (eldest[a] > value) {
+      intervals.push({
+        dimension: 1,
+        birth: value,
+        death: eldest[a],
+        edge,
+        vertices: [],
+        triangles: regions.members[a].map(
+          (face) => filtration.triangles[face].triangle
+        ),
+      });
+    }
+    attachRoot(regions, a, b);
+  }
+
+  return intervals;
+};
+
+/**
+ * Computes the alpha persistence of a point set from scratch
+ * @param points - Point set
+ * @returns Persistence intervals, components first
+ */
+export const computePointSetPersistence = (
+  points: Point[]
+): PersistenceInterval[] =>
+  computeAlphaPersistence(
+    points,
+    computeAlphaFiltration(
+      points,
+      Delaunay.from(points, (p) => p.x, (p) => p.y)
+    )
+  );
+
+/**
+ * Picks an alpha radius from the persistence of the filtration
+ * The number of components at α counts the H0 intervals still alive
+ * (death > α), so the smallest α leaving k components is the death of the
+ * k-th longest-lived component. Holes are gone for good once the last H1
+ * interval has died.
+ * @param intervals - Persistence intervals of the point set
+ * @param strategy - Selection strategy
+ * @param targetComponents - Wanted number of components ("components" only)
+ * @returns Smallest radius meeting the strategy (0 when any radius does)
+ */
+export const selectAlphaRadius = (
+  intervals: PersistenceInterval[],
+  strategy: AlphaStrategy,
+  targetComponents = 1
+): number => {
+  if (strategy === "hole-free") {
+    return intervals
+      .filter(
+        (interval) =>
+          interval.dimension === 1 && Number.isFinite(interval.death)
+      )
+      .reduce((radius, interval) => Math.max(radius, interval.death), 0);
+  }
+  const deaths = intervals
+    .filter((interval) => interval.dimension === 0)
+    .map((interval) => interval.death)
+    .sort((a, b) => (a === b ? 0 : a > b ? -1 : 1));
+  const count = strategy === "connected" ? 1 : Math.max(1, targetComponents);
+  if (count >= deaths.length) {
+    return 0;
+  }
+  // Essential components never die: fewer than their count is out of reach
+  return Number.isFinite(deaths[count]) ? deaths[count] : Infinity;
+};
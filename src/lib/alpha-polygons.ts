@@ -0,0 +1,280 @@
+/**
+ * @fileoverview Alpha-shape polygons and shape metrics
+ * Chains the boundary of the alpha complex into closed rings by walking the
+ * Delaunay halfedges around each vertex, then cuts the rings where they touch
+ * themselves. Rings are split into outer rings and holes by orientation, then
+ * grouped per connected component with area, perimeter and Betti numbers.
+ */
+
+import { Delaunay } from "d3-delaunay";
+import {
+  AlphaData,
+  AlphaShapeComponent,
+  AlphaShapePolygon,
+  Point,
+} from "./types";
+import {
+  isPointInPolygon,
+  markTriangleSubset,
+  nextHalfedge,
+} from "./math-utils";
+
+/**
+ * Signed shoelace area of a ring (positive when counterclockwise in raw
+ * coordinates)
+ * @param points - Point set
+ * @param ring - Point indices
+ * @returns Signed area
+ */
+const signedArea = (points: Point[], ring: number[]): number => {
+  let area = 0;
+  for (let i = 0; i < ring.length; i += 1) {
+    const a = points[ring[i]];
+    const b = points[ring[(i + 1) % ring.length]];
+    area += a.x * b.y - b.x * a.y;
+  }
+  return area / 2;
+};
+
+/**
+ * Length of a closed ring
+ * @param points - Point set
+ * @param ring - Point indices
+ * @returns Perimeter
+ */
+const ringLength = (points: Point[], ring: number[]): number => {
+  let length = 0;
+  for (let i = 0; i < ring.length; i += 1) {
+    const a = points[ring[i]];
+    const b = points[ring[(i + 1) % ring.length]];
+    length += Math.hypot(b.x - a.x, b.y - a.y);
+  }
+  return length;
+};
+
+/**
+ * Splits a closed halfedge walk into loops without repeated vertices
+ * A walk touching itself at a vertex (e.g. a C shape whose tips meet) is not
+ * a valid GeoJSON ring; cutting it there yields an outer ring and a hole.
+ * @param walk - Boundary halfedges in walking order
+ * @param triangles - Delaunay triangle vertex indices
+ * @returns Simple loops of halfedges
+ */
+const splitAtRepeatedVertices = (
+  walk: number[],
+  triangles: Uint32Array
+): number[][] => {
+  const loops: number[][] = [];
+  const stack: number[] = [];
+  const position = new Map<number, number>();
+  for (const halfedge of walk) {
+    const vertex = triangles[halfedge];
+    const first = position.get(vertex);
+    if (first !== undefined) {
+      const loop = stack.splice(first);
+      for (const cut of loop) {
+        position.delete(triangles[cut]);
+      }
+      loops.push(loop);
+    }
+    position.set(vertex, stack.length);
+    stack.push(halfedge);
+  }
+  if (stack.length) {
+    loops.push(stack);
+  }
+  return loops;
+};
+
+/**
+ * Extracts the components of the alpha complex as polygons with holes
+ * @param points - Point set
+ * @param delaunay - Delaunay triangulation
+ * @param alphaData - Alpha complex at this radius
+ * @returns Components sorted by decreasing area
+ */
+export const computeAlphaShapeComponents = (
+  points: Point[],
+  delaunay: Delaunay<Point>,
+  alphaData: AlphaData
+): AlphaShapeComponent[] => {
+  const { triangles, halfedges } = delaunay;
+  const inComplex = markTriangleSubset(triangles, alphaData.triangles);
+  const isBoundary = (e: number): boolean =>
+    inComplex[Math.floor(e / 3)] === 1 &&
+    (halfedges[e] === -1 || !inComplex[Math.floor(halfedges[e] / 3)]);
+
+  // Components of the whole complex (dangling edges and isolated points too)
+  const parent = Int32Array.from(points, (_, index) => index);
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
+  for (const [a, b] of alphaData.allEdges) {
+    parent[find(a)] = find(b);
+  }
+
+  const byRoot = new Map<number, AlphaShapeComponent>();
+  const componentOf = (index: number): AlphaShapeComponent => {
+    const root = find(index);
+    let component = byRoot.get(root);
+    if (!component) {
+      component = {
+        polygons: [],
+        vertices: [],
+        area: 0,
+        perimeter: 0,
+        betti: [1, 0],
+      };
+      byRoot.set(root, component);
+    }
+    return component;
+  };
+  points.forEach((_, index) => componentOf(index).vertices.push(index));
+
+  // β1 = E − V + 1 − T per component (Euler characteristic)
+  const edgeCount = new Map<AlphaShapeComponent, number>();
+  for (const [a] of alphaData.allEdges) {
+    const component = componentOf(a);
+    edgeCount.set(component, (edgeCount.get(component) ?? 0) + 1);
+  }
+  const triangleCountOf = new Map<AlphaShapeComponent, number>();
+  for (const [a] of alphaData.triangles) {
+    const component = componentOf(a);
+    triangleCountOf.set(component, (triangleCountOf.get(component) ?? 0) + 1);
+  }
+  for (const component of byRoot.values()) {
+    component.betti[1] =
+      (edgeCount.get(component) ?? 0) -
+      component.vertices.length +
+      1 -
+      (triangleCountOf.get(component) ?? 0);
+  }
+
+  // Walk the boundary: from the end of a boundary halfedge, turn around the
+  // vertex through complex triangles until the next boundary halfedge
+  const visited = new Uint8Array(triangles.length);
+  const outers: Array<{ ring: number[]; area: number }> = [];
+  const holes: Array<{ ring: number[]; probe: [number, number] }> = [];
+  for (let start = 0; start < triangles.length; start += 1) {
+    if (visited[start] || !isBoundary(start)) {
+      continue;
+    }
+    const walk: number[] = [];
+    let e = start;
+    do {
+      visited[e] = 1;
+      walk.push(e);
+      let next = nextHalfedge(e);
+      while (!isBoundary(next)) {
+        next = nextHalfedge(halfedges[next]);
+      }
+      e = next;
+    } while (e !== start);
+
+    for (const loop of splitAtRepeatedVertices(walk, triangles)) {
+      // Delaunay triangles are clockwise in raw coordinates: reversing gives
+      // counterclockwise outer rings and clockwise holes
+      const ring = loop.map((halfedge) => triangles[halfedge]).reverse();
+      const area = signedArea(points, ring);
+      if (area > 0) {
+        outers.push({ ring, area });
+        continue;
+      }
+      // The triangle behind a hole edge lies inside the enclosing ring
+      const t = Math.floor(loop[0] / 3);
+      const probe: [number, number] = [0, 0];
+      for (let k = 0; k < 3; k += 1) {
+        probe[0] += points[triangles[3 * t + k]].x / 3;
+        probe[1] += points[triangles[3 * t + k]].y / 3;
+      }
+      holes.push({ ring, probe });
+    }
+  }
+
+  const polygonsOf = new Map<
+    AlphaShapeComponent,
+    Array<{ polygon: AlphaShapePolygon; area: number }>
+  >();
+  for (const { ring, area } of outers) {
+    const component = componentOf(ring[0]);
+    const polygon: AlphaShapePolygon = { outer: ring, holes: [] };
+    component.polygons.push(polygon);
+    component.area += area;
+    component.perimeter += ringLength(points, ring);
+    const list = polygonsOf.get(component) ?? [];
+    list.push({ polygon, area });
+    polygonsOf.set(component, list);
+  }
+  for (const { ring, probe } of holes) {
+    const component = componentOf(ring[0]);
+    let best: { polygon: AlphaShapePolygon; area: number } | null = null;
+    for (const candidate of polygonsOf.get(component) ?? []) {
+      const outline = candidate.polygon.outer.map(
+        (index) => [points[index].x, points[index].y] as [number, number]
+      );
+      if (
+        (!best || candidate.area < best.area) &&
+        isPointInPolygon(probe[0], probe[1], outline)
+      ) {
+        best = candidate;
+      }
+    }
+    if (!best) {
+      continue;
+    }
+    best.polygon.holes.push(ring);
+    component.area += signedArea(points, ring);
+    component.perimeter += ringLength(points, ring);
+  }
+
+  return Array.from(byRoot.values()).sort((a, b) => b.area - a.area);
+};
+
+/**
+ * Serializes alpha-shape components as a GeoJSON FeatureCollection
+ * Components without triangles (isolated points, edge-only trees) have no
+ * polygon and are skipped. Coordinates are canvas pixels.
+ * @param points - Point set
+ * @param components - Alpha-shape components
+ * @param alpha - Alpha radius, stored in the collection properties
+ * @returns GeoJSON object of MultiPolygon features
+ */
+export const alphaShapeToGeoJson = (
+  points: Point[],
+  components: AlphaShapeComponent[],
+  alpha: number
+): object => {
+  const closedRing = (ring: number[]) => {
+    const coordinates = ring.map((index) => [points[index].x, points[index].y]);
+    coordinates.push(coordinates[0]);
+    return coordinates;
+  };
+  return {
+    type: "FeatureCollection",
+    properties: { alpha },
+    features: components
+      .filter((component) => component.polygons.length)
+      .map((component, index) => ({
+        type: "Feature",
+        properties: {
+          component: index,
+          area: component.area,
+          perimeter: component.perimeter,
+          betti0: component.betti[0],
+          betti1: component.betti[1],
+          points: component.vertices.length,
+        },
+        geometry: {
+          type: "MultiPolygon",
+          coordinates: component.polygons.map(({ outer, holes }) => [
+            closedRing(outer),
+            ...holes.map(closedRing),
+          ]),
+        },
+      })),
+  };
+};
@@ -3,10 +3,32 @@
  * Handles all drawing operations including polygons, gradients, and visualization rendering
  */
 
-import { POINT_RADIUS, CELL_ROUNDING, CELL_GAP, MODE_BASE_HUE } from "./constants";
-import { Point, DerivedStructures, GraphMode, RGBColor } from "./types";
+import {
+  POINT_RADIUS,
+  CELL_ROUNDING,
+  CELL_GAP,
+  MODE_BASE_HUE,
+  WEIGHTED_MODES,
+  RASTER_MODES,
+} from "./constants";
+import {
+  Point,
+  AlphaShapeComponent,
+  CircleAnalysis,
+  RefinementMesh,
+  DerivedStructures,
+  EdgeIndex,
+  GraphMode,
+  MedialAxis,
+  PersistenceInterval,
+  RGBColor,
+  SceneOverlays,
+  Stipple,
+} from "./types";
 import { shrinkPolygon, polygonWithoutDuplicate } from "./geometry-algorithms";
 import { isPointInPolygon } from "./math-utils";
+import { paintDistanceField } from "./distance-field";
+import { triangleMinAngle } from "./mesh-refinement";
 
 /**
  * Draws a polygon with rounded corners using quadratic curves
@@ -158,6 +180,79 @@ export const getAverageColorInPolygon = (
   };
 };
 
+/**
+ * Averages background image colors over each cell of a raster label map
+ * @param labels - Row-major nearest-site label map
+ * @param count - Number of sites
+ * @param width - Canvas width
+ * @param height - Canvas height
+ * @param image - Background image data
+ * @returns Average RGB color per site (gray for empty cells)
+ */
+export const averageImageColorPerLabel = (
+  labels: Int32Array,
+  count: number,
+  width: number,
+  height: number,
+  image: ImageData
+): RGBColor[] => {
+  const sums = Array.from({ length: count }, () => ({
+    r: 0,
+    g: 0,
+    b: 0,
+    count: 0,
+  }));
+
+  // Scale factors for sampling the background image
+  const scaleX = image.width / width;
+  const scaleY = image.height / height;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const sum = sums[labels[y * width + x]];
+      const imgX = Math.floor(x * scaleX);
+      const imgY = Math.floor(y * scaleY);
+      const imgIndex = (imgY * image.width + imgX) * 4;
+      sum.r += image.data[imgIndex];
+      sum.g += image.data[imgIndex + 1];
+      sum.b += image.data[imgIndex + 2];
+      sum.count++;
+    }
+  }
+
+  return sums.map((sum) =>
+    sum.count > 0
+      ? {
+          r: Math.round(sum.r / sum.count),
+          g: Math.round(sum.g / sum.count),
+          b: Math.round(sum.b / sum.count),
+        }
+      : { r: 128, g: 128, b: 128 }
+  );
+};
+
+/**
+ * Fills an ImageData buffer with one color per label
+ * @param imageData - Target image data (same size as the label map)
+ * @param labels - Row-major nearest-site label map
+ * @param colors - Color of each site
+ */
+export const paintLabelMap = (
+  imageData: ImageData,
+  labels: Int32Array,
+  colors: RGBColor[]
+): void => {
+  const data = imageData.data;
+  for (let index = 0; index < labels.length; index++) {
+    const color = colors[labels[index]];
+    const pixelIndex = index * 4;
+    data[pixelIndex] = color.r;
+    data[pixelIndex + 1] = color.g;
+    data[pixelIndex + 2] = color.b;
+    data[pixelIndex + 3] = 255;
+  }
+};
+
 /**
  * Main scene drawing function
  * Renders the entire visualization including background, cells, edges, and points
@@ -171,6 +266,7 @@ export const getAverageColorInPolygon = (
  * @param ghostPoint - Optional ghost point for previewing placement
  * @param alphaRadius - Current alpha radius
  * @param backgroundImage - Optional background image data for coloring
+ * @param overlays - Optional render layers toggled from the UI
  */
 export const drawScene = (
   ctx: CanvasRenderingContext2D,
@@ -182,7 +278,8 @@ export const drawScene = (
   mode: GraphMode,
   ghostPoint: { x: number; y: number } | null,
   alphaRadius: number,
-  backgroundImage: ImageData | null
+  backgroundImage: ImageData | null,
+  overlays: SceneOverlays
 ): void => {
   ctx.clearRect(0, 0, width, height);
 
@@ -205,6 +302,15 @@ export const drawScene = (
   ctx.fillStyle = background;
   ctx.fillRect(0, 0, width, height);
 
+  // Stipple drawing replaces the interactive scene
+  if (mode === "stipple") {
+    drawStipples(ctx, overlays.stipples, width, height);
+    if (ghostPoint !== null) {
+      drawGhostPoint(ctx, ghostPoint, alphaRadius, mode, t, MODE_BASE_HUE[mode]);
+    }
+    return;
+  }
+
   if (points.length === 0) {
     return;
   }
@@ -217,20 +323,105 @@ export const drawScene = (
   const baseHue = MODE_BASE_HUE[mode];
 
   // Mode-specific rendering
-  if (mode === "voronoi" || mode === "voronoi-bruteforce") {
-    drawVoronoiCells(ctx, derived, points, t, width, height, backgroundImage, mode);
+  if (mode === "voronoi" || mode === "power" || RASTER_MODES.includes(mode)) {
+    drawVoronoiCells(
+      ctx,
+      derived,
+      points,
+      t,
+      width,
+      height,
+      backgroundImage,
+      mode,
+      overlays.showIsolines
+    );
+  } else if (mode === "order-k") {
+    drawOrderKRegions(ctx, derived, t);
+  } else if (mode === "farthest") {
+    drawFarthestCells(ctx, derived, points, t, baseHue, dynamicRoundness);
+  } else if (mode === "hull") {
+    drawConvexLayers(ctx, derived, points, overlays.hullLayerCount, t, baseHue);
   } else {
     drawBackgroundCells(ctx, derived, mode, t, baseHue, dynamicRoundness);
-    if (mode === "alpha-complex" && derived.alphaTriangles.length) {
+    if (overlays.showUnionOfBalls && derived.alphaComplex) {
+      drawUnionOfBalls(ctx, derived, points, alphaRadius, t, baseHue);
+    }
+    if (mode === "alpha-shape" && derived.alphaComponents?.length) {
+      drawAlphaShapePolygons(ctx, derived.alphaComponents, points, t, baseHue);
+    }
+    if (derived.concaveHull?.ring.length) {
+      drawConcaveHull(ctx, derived.concaveHull.ring, points, t, baseHue);
+    }
+    if (derived.alphaTriangles.length) {
       drawAlphaTriangles(ctx, derived, points, mode, t, baseHue);
     }
+    if (mode === "cdt") {
+      drawNonDelaunayTriangles(ctx, derived, points, t);
+    }
+    if (mode === "mesh" && overlays.mesh) {
+      drawRefinementMesh(ctx, overlays.mesh, t, baseHue);
+    }
     if (derived.graphEdges.length) {
       drawGraphEdges(ctx, derived, points, mode, t, baseHue);
     }
+    if (derived.isolatedVertices?.length) {
+      drawIsolatedVertices(ctx, derived.isolatedVertices, points, t, baseHue);
+    }
+    if (derived.constraintEdges?.length) {
+      drawConstraintEdges(ctx, derived.constraintEdges, points);
+    }
+    if (overlays.showVoronoiVertices && derived.voronoiVertices?.length) {
+      drawVoronoiVertices(ctx, derived.voronoiVertices, t, baseHue);
+    }
+    if (derived.medialAxis) {
+      drawMedialAxis(
+        ctx,
+        derived.medialAxis,
+        overlays.highlightedMedialVertex,
+        t,
+        baseHue
+      );
+    }
+  }
+
+  // Persistence interval selected in the barcode
+  if (overlays.highlightedInterval) {
+    drawPersistenceInterval(ctx, overlays.highlightedInterval, points, t);
   }
 
-  // Draw point spheres
-  drawPoints(ctx, points, mode, t, baseHue);
+  // Circle analysis overlay on top of any mode
+  if (derived.circleAnalysis) {
+    drawCircleAnalysis(ctx, derived.circleAnalysis, points, t);
+  }
+
+  // Draw weight circles for weighted modes
+  if (WEIGHTED_MODES.includes(mode)) {
+    drawWeightCircles(ctx, points, t, baseHue);
+  }
+
+  // Draw point spheres (interior points are greyed out in farthest mode)
+  let mutedIndices: Set<number> | null = null;
+  if (mode === "farthest" && derived.hullIndices) {
+    const hull = new Set(derived.hullIndices);
+    mutedIndices = new Set(
+      points.map((_, index) => index).filter((index) => !hull.has(index))
+    );
+  }
+  drawPoints(ctx, points, mode, t, baseHue, mutedIndices);
+
+  // Constraint segment being drawn
+  if (overlays.constraintPreview) {
+    const { from, to } = overlays.constraintPreview;
+    ctx.save();
+    ctx.setLineDash([6, 6]);
+    ctx.strokeStyle = "rgba(251, 191, 36, 0.9)";
+    ctx.lineWidth = 2.5;
+    ctx.beginPath();
+    ctx.moveTo(from[0], from[1]);
+    ctx.lineTo(to[0], to[1]);
+    ctx.stroke();
+    ctx.restore();
+  }
 
   // Draw ghost point if present
   if (ghostPoint !== null) {
@@ -238,9 +429,39 @@ export const drawScene = (
   }
 };
 
+/**
+ * Renders a stipple drawing as black dots on paper
+ * Also used for PNG export of the stipple drawing
+ * @param ctx - 2D canvas context
+ * @param stipples - Stipple dots
+ * @param width - Canvas width
+ * @param height - Canvas height
+ */
+export const drawStipples = (
+  ctx: CanvasRenderingContext2D,
+  stipples: Stipple[],
+  width: number,
+  height: number
+): void => {
+  if (!stipples.length) {
+    return;
+  }
+  ctx.save();
+  ctx.fillStyle = "#f8f5ef";
+  ctx.fillRect(0, 0, width, height);
+  ctx.fillStyle = "#111111";
+  ctx.beginPath();
+  for (const { x, y, radius } of stipples) {
+    ctx.moveTo(x + radius, y);
+    ctx.arc(x, y, radius, 0, Math.PI * 2);
+  }
+  ctx.fill();
+  ctx.restore();
+};
+
 /**
  * Renders Voronoi cells with gradients and image-based coloring
- * Supports both continuous and discrete (brute force) Voronoi diagrams
+ * Supports continuous (plain or power) and discrete (raster) Voronoi diagrams
  * @param ctx - 2D canvas context
  * @param derived - Geometric structures
  * @param points - Array of points
@@ -249,6 +470,7 @@ export const drawScene = (
  * @param height - Canvas height
  * @param backgroundImage - Optional background image
  * @param mode - Visualization mode
+ * @param showIsolines - Draw isodistance lines over the distance layer
  */
 const drawVoronoiCells = (
   ctx: CanvasRenderingContext2D,
@@ -258,11 +480,15 @@ const drawVoronoiCells = (
   width: number,
   height: number,
   backgroundImage: ImageData | null,
-  mode: GraphMode
+  mode: GraphMode,
+  showIsolines: boolean
 ): void => {
-  // For brute force mode, render all cells using a temporary canvas
+  // For raster modes, paint the precomputed label map using a temporary canvas
   // We use drawImage instead of putImageData because putImageData ignores canvas transforms (DPR)
-  if (mode === "voronoi-bruteforce") {
+  if (RASTER_MODES.includes(mode)) {
+    const labels = derived.rasterLabels;
+    if (!labels || labels.length !== width * height) return;
+
     // Create a temporary canvas at logical size
     const tempCanvas = document.createElement("canvas");
     tempCanvas.width = width;
@@ -271,105 +497,36 @@ const drawVoronoiCells = (
     if (!tempCtx) return;
 
     const imageData = tempCtx.createImageData(width, height);
-    const data = imageData.data;
+
+    // Distance layer replaces the cell colors
+    if (derived.distanceField) {
+      paintDistanceField(imageData, derived.distanceField, showIsolines);
+      tempCtx.putImageData(imageData, 0, 0);
+      ctx.drawImage(tempCanvas, 0, 0);
+      return;
+    }
 
     // Pre-calculate RGB colors for each cell
-    const cellColors: Array<{ r: number; g: number; b: number }> = [];
-    
+    let cellColors: RGBColor[];
     if (backgroundImage) {
-      // Calculate average color for each cell from background image
-      // First, we need to accumulate colors per cell
-      const cellColorSums: Array<{ r: number; g: number; b: number; count: number }> = 
-        points.map(() => ({ r: 0, g: 0, b: 0, count: 0 }));
-      
-      // Scale factors for sampling the background image
-      const scaleX = backgroundImage.width / width;
-      const scaleY = backgroundImage.height / height;
-      
-      // First pass: accumulate colors for each cell
-      for (let y = 0; y < height; y++) {
-        for (let x = 0; x < width; x++) {
-          let closestIndex = 0;
-          let closestDistance = Number.MAX_VALUE;
-
-          for (let i = 0; i < points.length; i++) {
-            const seedX = Math.round(points[i].x);
-            const seedY = Math.round(points[i].y);
-            const dx = x - seedX;
-            const dy = y - seedY;
-            const distSquared = dx * dx + dy * dy;
-
-            if (distSquared < closestDistance) {
-              closestDistance = distSquared;
-              closestIndex = i;
-            }
-          }
-
-          // Sample color from background image
-          const imgX = Math.floor(x * scaleX);
-          const imgY = Math.floor(y * scaleY);
-          const imgIndex = (imgY * backgroundImage.width + imgX) * 4;
-          
-          cellColorSums[closestIndex].r += backgroundImage.data[imgIndex];
-          cellColorSums[closestIndex].g += backgroundImage.data[imgIndex + 1];
-          cellColorSums[closestIndex].b += backgroundImage.data[imgIndex + 2];
-          cellColorSums[closestIndex].count++;
-        }
-      }
-      
-      // Calculate average colors
-      for (let i = 0; i < points.length; i++) {
-        const sum = cellColorSums[i];
-        if (sum.count > 0) {
-          cellColors.push({
-            r: Math.round(sum.r / sum.count),
-            g: Math.round(sum.g / sum.count),
-            b: Math.round(sum.b / sum.count),
-          });
-        } else {
-          cellColors.push({ r: 128, g: 128, b: 128 });
-        }
-      }
+      cellColors = averageImageColorPerLabel(
+        labels,
+        points.length,
+        width,
+        height,
+        backgroundImage
+      );
     } else {
       // Palette de gris bien répartie (chaque cellule a une teinte unique)
       const n = points.length;
-      for (let i = 0; i < n; i++) {
+      cellColors = points.map((_, i) => {
         // Répartition linéaire sur la plage 60-180
         const gray = Math.round(60 + (i * (180 - 60)) / Math.max(1, n - 1));
-        cellColors.push({ r: gray, g: gray, b: gray });
-      }
+        return { r: gray, g: gray, b: gray };
+      });
     }
 
-    // Render each pixel to its closest seed
-    for (let y = 0; y < height; y++) {
-      for (let x = 0; x < width; x++) {
-        let closestIndex = 0;
-        let closestDistance = Number.MAX_VALUE;
-
-        // Find closest seed using discrete coordinates
-        // Round point coordinates to nearest integer for truly discrete calculation
-        for (let i = 0; i < points.length; i++) {
-          const seedX = Math.round(points[i].x);
-          const seedY = Math.round(points[i].y);
-          const dx = x - seedX;
-          const dy = y - seedY;
-          const distSquared = dx * dx + dy * dy;
-
-          if (distSquared < closestDistance) {
-            closestDistance = distSquared;
-            closestIndex = i;
-          }
-        }
-
-        // Fill pixel with cell color
-        const color = cellColors[closestIndex];
-        const pixelIndex = (y * width + x) * 4;
-        data[pixelIndex] = color.r;
-        data[pixelIndex + 1] = color.g;
-        data[pixelIndex + 2] = color.b;
-        data[pixelIndex + 3] = 255;
-      }
-    }
+    paintLabelMap(imageData, labels, cellColors);
 
     // Put image data on temp canvas, then draw to main canvas (respects transforms)
     tempCtx.putImageData(imageData, 0, 0);
@@ -442,6 +599,245 @@ const drawVoronoiCells = (
   }
 };
 
+/**
+ * Hue of a site combination
+ * Sums a golden-angle hue per site, so regions sharing sites get related colors
+ * @param sites - Site indices
+ * @returns Hue in degrees
+ */
+export const siteSetHue = (sites: number[]): number =>
+  sites.reduce((sum, site) => sum + ((site * 137.508) % 360), 0) % 360;
+
+/**
+ * Renders order-k Voronoi regions colored by their site combination
+ * @param ctx - 2D canvas context
+ * @param derived - Geometric structures
+ * @param t - Normalized time
+ */
+const drawOrderKRegions = (
+  ctx: CanvasRenderingContext2D,
+  derived: DerivedStructures,
+  t: number
+): void => {
+  ctx.save();
+  for (const region of derived.orderKRegions ?? []) {
+    const hue = (siteSetHue(region.sites) + t * 12) % 360;
+    drawRoundedPolygon(ctx, shrinkPolygon(region.polygon, CELL_GAP * 0.5), 8);
+    ctx.fillStyle = `hsla(${hue}, 62%, 42%, 0.75)`;
+    ctx.fill();
+    ctx.strokeStyle = `hsla(${hue}, 85%, 78%, 0.35)`;
+    ctx.lineWidth = 1;
+    ctx.stroke();
+  }
+  ctx.restore();
+};
+
+/**
+ * Renders the farthest-point Voronoi diagram
+ * Draws the hull vertex cells, the convex hull outline and the smallest
+ * enclosing circle whose centre lies on the diagram
+ * @param ctx - 2D canvas context
+ * @param derived - Geometric structures
+ * @param points - Array of points
+ * @param t - Normalized time
+ * @param baseHue - Base hue for the mode
+ * @param dynamicRoundness - Rounded corner radius
+ */
+const drawFarthestCells = (
+  ctx: CanvasRenderingContext2D,
+  derived: DerivedStructures,
+  points: Point[],
+  t: number,
+  baseHue: number,
+  dynamicRoundness: number
+): void => {
+  ctx.save();
+  derived.voronoiCells.forEach((polygon, index) => {
+    if (!polygon.length) {
+      return;
+    }
+    const hue = (baseHue + index * 47 + t * 24) % 360;
+    drawRoundedPolygon(ctx, shrinkPolygon(polygon, CELL_GAP), dynamicRoundness);
+    ctx.fillStyle = `hsla(${hue}, 70%, 38%, 0.7)`;
+    ctx.fill();
+    ctx.strokeStyle = `hsla(${hue}, 90%, 75%, 0.3)`;
+    ctx.lineWidth = 1.5;
+    ctx.stroke();
+  });
+
+  // Convex hull outline
+  const hull = derived.hullIndices ?? [];
+  if (hull.length >= 2) {
+    ctx.beginPath();
+    hull.forEach((index, order) => {
+      const point = points[index];
+      if (order === 0) {
+        ctx.moveTo(point.x, point.y);
+      } else {
+        ctx.lineTo(point.x, point.y);
+      }
+    });
+    ctx.closePath();
+    ctx.strokeStyle = "rgba(255, 255, 255, 0.45)";
+    ctx.lineWidth = 1.5;
+    ctx.stroke();
+  }
+
+  // Smallest enclosing circle and its centre
+  const circle = derived.enclosingCircle;
+  if (circle) {
+    const hue = (baseHue + 180 + t * 20) % 360;
+    ctx.beginPath();
+    ctx.arc(circle.x, circle.y, circle.radius, 0, Math.PI * 2);
+    ctx.setLineDash([8, 6]);
+    ctx.strokeStyle = `hsla(${hue}, 90%, 72%, 0.8)`;
+    ctx.lineWidth = 2;
+    ctx.stroke();
+    ctx.setLineDash([]);
+
+    ctx.beginPath();
+    ctx.arc(circle.x, circle.y, POINT_RADIUS * 0.7, 0, Math.PI * 2);
+    ctx.fillStyle = `hsla(${hue}, 95%, 70%, 0.9)`;
+    ctx.shadowColor = `hsla(${hue}, 95%, 65%, 0.8)`;
+    ctx.shadowBlur = 20;
+    ctx.fill();
+  }
+  ctx.restore();
+};
+
+/**
+ * Renders the convex layers, coloured by depth
+ * Deeper layers are drawn on top so each ring stays visible
+ * @param ctx - 2D canvas context
+ * @param derived - Geometric structures
+ * @param points - Array of points
+ * @param layerCount - Number of layers to draw from the hull inwards
+ * @param t - Normalized time
+ * @param baseHue - Base hue for the mode
+ */
+const drawConvexLayers = (
+  ctx: CanvasRenderingContext2D,
+  derived: DerivedStructures,
+  points: Point[],
+  layerCount: number,
+  t: number,
+  baseHue: number
+): void => {
+  const layers = (derived.convexLayers ?? []).slice(0, layerCount);
+  ctx.save();
+  layers.forEach((layer, depth) => {
+    if (!layer.length) {
+      return;
+    }
+    const hue = (baseHue + depth * 33 + t * 18) % 360;
+    ctx.beginPath();
+    layer.forEach((index, order) => {
+      const point = points[index];
+      if (order === 0) {
+        ctx.moveTo(point.x, point.y);
+      } else {
+        ctx.lineTo(point.x, point.y);
+      }
+    });
+    ctx.closePath();
+    ctx.fillStyle = `hsla(${hue}, 70%, 40%, 0.18)`;
+    ctx.fill();
+    ctx.strokeStyle = `hsla(${hue}, 90%, 70%, 0.9)`;
+    ctx.lineWidth = depth === 0 ? 2.4 : 1.6;
+    ctx.stroke();
+  });
+  ctx.restore();
+};
+
+/**
+ * Renders the circle analysis: largest empty circle, smallest enclosing
+ * circle, diameter and width strip
+ * @param ctx - 2D canvas context
+ * @param analysis - Circle analysis results
+ * @param points - Array of points
+ * @param t - Normalized time
+ */
+const drawCircleAnalysis = (
+  ctx: CanvasRenderingContext2D,
+  analysis: CircleAnalysis,
+  points: Point[],
+  t: number
+): void => {
+  const pulse = 0.75 + 0.25 * Math.sin(t * 2);
+  ctx.save();
+
+  const empty = analysis.largestEmptyCircle;
+  if (empty) {
+    ctx.beginPath();
+    ctx.arc(empty.x, empty.y, empty.radius, 0, Math.PI * 2);
+    ctx.fillStyle = "rgba(52, 211, 153, 0.1)";
+    ctx.fill();
+    ctx.strokeStyle = `rgba(52, 211, 153, ${0.9 * pulse})`;
+    ctx.lineWidth = 2;
+    ctx.stroke();
+    ctx.beginPath();
+    ctx.arc(empty.x, empty.y, 3.5, 0, Math.PI * 2);
+    ctx.fillStyle = "rgba(52, 211, 153, 1)";
+    ctx.fill();
+  }
+
+  const enclosing = analysis.enclosingCircle;
+  if (enclosing) {
+    ctx.beginPath();
+    ctx.arc(enclosing.x, enclosing.y, enclosing.radius, 0, Math.PI * 2);
+    ctx.setLineDash([8, 6]);
+    ctx.strokeStyle = "rgba(251, 191, 36, 0.85)";
+    ctx.lineWidth = 2;
+    ctx.stroke();
+    ctx.setLineDash([]);
+  }
+
+  const calipers = analysis.calipers;
+  if (calipers) {
+    // Diameter segment
+    const [d0, d1] = calipers.diameter.endpoints;
+    ctx.beginPath();
+    ctx.moveTo(points[d0].x, points[d0].y);
+    ctx.lineTo(points[d1].x, points[d1].y);
+    ctx.strokeStyle = "rgba(244, 114, 182, 0.9)";
+    ctx.lineWidth = 2;
+    ctx.stroke();
+
+    // Width strip: supporting line of the edge, parallel line through the apex
+    const [e0, e1] = calipers.width.edge;
+    const a = points[e0];
+    const b = points[e1];
+    const apex = points[calipers.width.apex];
+    const length = Math.hypot(b.x - a.x, b.y - a.y);
+    if (length > 0) {
+      const ux = (b.x - a.x) / length;
+      const uy = (b.y - a.y) / length;
+      const reach = Math.hypot(ctx.canvas.width, ctx.canvas.height);
+      const along = (apex.x - a.x) * ux + (apex.y - a.y) * uy;
+      const foot = { x: a.x + ux * along, y: a.y + uy * along };
+
+      ctx.setLineDash([4, 6]);
+      ctx.strokeStyle = "rgba(129, 140, 248, 0.8)";
+      ctx.lineWidth = 1.5;
+      for (const origin of [a, apex]) {
+        ctx.beginPath();
+        ctx.moveTo(origin.x - ux * reach, origin.y - uy * reach);
+        ctx.lineTo(origin.x + ux * reach, origin.y + uy * reach);
+        ctx.stroke();
+      }
+      ctx.setLineDash([]);
+      ctx.beginPath();
+      ctx.moveTo(apex.x, apex.y);
+      ctx.lineTo(foot.x, foot.y);
+      ctx.strokeStyle = "rgba(129, 140, 248, 1)";
+      ctx.lineWidth = 2;
+      ctx.stroke();
+    }
+  }
+
+  ctx.restore();
+};
+
 /**
  * Renders background Voronoi cells as faint overlay
  * @param ctx - 2D canvas context
@@ -473,6 +869,176 @@ const drawBackgroundCells = (
   ctx.restore();
 };
 
+/**
+ * Renders the union of α-disks cut by the Voronoi cells, with the dual
+ * alpha complex on top
+ * Each cell ∩ disk is drawn by clipping: the arc is stroked inside the cell
+ * and the cell edges inside the disk, which outlines the intersection. Two
+ * restricted cells touch exactly along the edges of the complex.
+ * @param ctx - 2D canvas context
+ * @param derived - Geometric structures
+ * @param points - Array of points
+ * @param alphaRadius - Disk radius
+ * @param t - Normalized time
+ * @param baseHue - Base hue for the mode
+ */
+const drawUnionOfBalls = (
+  ctx: CanvasRenderingContext2D,
+  derived: DerivedStructures,
+  points: Point[],
+  alphaRadius: number,
+  t: number,
+  baseHue: number
+): void => {
+  derived.voronoiCells.forEach((polygon, index) => {
+    const point = points[index];
+    if (!polygon.length || !point) {
+      return;
+    }
+    const tracePolygon = () => {
+      ctx.beginPath();
+      polygon.forEach(([x, y], order) => {
+        if (order === 0) {
+          ctx.moveTo(x, y);
+        } else {
+          ctx.lineTo(x, y);
+        }
+      });
+      ctx.closePath();
+    };
+    const traceDisk = () => {
+      ctx.beginPath();
+      ctx.arc(point.x, point.y, alphaRadius, 0, Math.PI * 2);
+    };
+    const hue = (baseHue + index * 29 + t * 18) % 360;
+
+    ctx.save();
+    tracePolygon();
+    ctx.clip();
+    traceDisk();
+    ctx.fillStyle = `hsla(${hue}, 75%, 55%, 0.22)`;
+    ctx.fill();
+    ctx.strokeStyle = `hsla(${hue}, 85%, 72%, 0.85)`;
+    ctx.lineWidth = 1.5;
+    ctx.stroke();
+    ctx.restore();
+
+    ctx.save();
+    traceDisk();
+    ctx.clip();
+    tracePolygon();
+    ctx.strokeStyle = `hsla(${hue}, 85%, 72%, 0.85)`;
+    ctx.lineWidth = 1.5;
+    ctx.stroke();
+    ctx.restore();
+  });
+
+  const complex = derived.alphaComplex;
+  if (!complex) {
+    return;
+  }
+  ctx.save();
+  ctx.fillStyle = "rgba(255, 255, 255, 0.08)";
+  for (const [a, b, c] of complex.triangles) {
+    ctx.beginPath();
+    ctx.moveTo(points[a].x, points[a].y);
+    ctx.lineTo(points[b].x, points[b].y);
+    ctx.lineTo(points[c].x, points[c].y);
+    ctx.closePath();
+    ctx.fill();
+  }
+  ctx.strokeStyle = "rgba(255, 255, 255, 0.6)";
+  ctx.lineWidth = 1.2;
+  ctx.beginPath();
+  for (const [a, b] of complex.allEdges) {
+    ctx.moveTo(points[a].x, points[a].y);
+    ctx.lineTo(points[b].x, points[b].y);
+  }
+  ctx.stroke();
+  ctx.restore();
+};
+
+/**
+ * Fills the concave hull polygon with a gradient along its bounding box
+ * @param ctx - 2D canvas context
+ * @param ring - Polygon vertex indices
+ * @param points - Array of points
+ * @param t - Normalized time
+ * @param baseHue - Base hue for the mode
+ */
+const drawConcaveHull = (
+  ctx: CanvasRenderingContext2D,
+  ring: number[],
+  points: Point[],
+  t: number,
+  baseHue: number
+): void => {
+  const xs = ring.map((vertex) => points[vertex].x);
+  const ys = ring.map((vertex) => points[vertex].y);
+  const hue = (baseHue + t * 24) % 360;
+  const gradient = ctx.createLinearGradient(
+    Math.min(...xs),
+    Math.min(...ys),
+    Math.max(...xs),
+    Math.max(...ys)
+  );
+  gradient.addColorStop(0, `hsla(${hue}, 70%, 50%, 0.2)`);
+  gradient.addColorStop(1, `hsla(${(hue + 40) % 360}, 80%, 45%, 0.12)`);
+  ctx.save();
+  ctx.beginPath();
+  ring.forEach((vertex, order) => {
+    if (order === 0) {
+      ctx.moveTo(points[vertex].x, points[vertex].y);
+    } else {
+      ctx.lineTo(points[vertex].x, points[vertex].y);
+    }
+  });
+  ctx.closePath();
+  ctx.fillStyle = gradient;
+  ctx.fill();
+  ctx.restore();
+};
+
+/**
+ * Fills the alpha-shape polygons, holes left empty (even-odd rule)
+ * @param ctx - 2D canvas context
+ * @param components - Alpha-shape components
+ * @param points - Array of points
+ * @param t - Normalized time
+ * @param baseHue - Base hue for the mode
+ */
+const drawAlphaShapePolygons = (
+  ctx: CanvasRenderingContext2D,
+  components: AlphaShapeComponent[],
+  points: Point[],
+  t: number,
+  baseHue: number
+): void => {
+  ctx.save();
+  components.forEach((component, index) => {
+    if (!component.polygons.length) {
+      return;
+    }
+    ctx.beginPath();
+    for (const { outer, holes } of component.polygons) {
+      for (const ring of [outer, ...holes]) {
+        ring.forEach((vertex, order) => {
+          if (order === 0) {
+            ctx.moveTo(points[vertex].x, points[vertex].y);
+          } else {
+            ctx.lineTo(points[vertex].x, points[vertex].y);
+          }
+        });
+        ctx.closePath();
+      }
+    }
+    const hue = (baseHue + index * 37 + t * 12) % 360;
+    ctx.fillStyle = `hsla(${hue}, 70%, 45%, 0.16)`;
+    ctx.fill("evenodd");
+  });
+  ctx.restore();
+};
+
 /**
  * Renders alpha-complex triangles
  * @param ctx - 2D canvas context
@@ -538,7 +1104,18 @@ const drawGraphEdges = (
   ctx.shadowColor = `hsla(${baseHue}, 90%, 65%, 0.6)`;
   ctx.shadowBlur = 18;
   const baseWidth =
-    mode === "mst" ? 4.4 : mode === "nn-crust" ? 3.6 : 3.1;
+    mode === "mst"
+      ? 4.4
+      : mode === "nn-crust"
+        ? 3.6
+        : mode === "cdt"
+          ? 1.8
+          : 3.1;
+
+  // NN-crust half-neighbor edges are drawn dashed with a shifted hue
+  const halfNeighborKeys = new Set(
+    (derived.nnCrust?.halfNeighborEdges ?? []).map(([ai, bi]) => `${ai}-${bi}`)
+  );
 
   derived.graphEdges.forEach(([ai, bi], index) => {
     const a = points[ai];
@@ -546,7 +1123,10 @@ const drawGraphEdges = (
     if (!a || !b) {
       return;
     }
-    const hue = (baseHue + index * 11 + t * 28) % 360;
+    const isHalfNeighbor = halfNeighborKeys.has(`${ai}-${bi}`);
+    const hue =
+      (baseHue + index * 11 + t * 28 + (isHalfNeighbor ? 150 : 0)) % 360;
+    ctx.setLineDash(isHalfNeighbor ? [10, 7] : []);
     ctx.strokeStyle = `hsla(${hue}, 85%, 78%, 0.88)`;
     ctx.lineWidth = baseWidth;
     ctx.beginPath();
@@ -568,6 +1148,320 @@ const drawGraphEdges = (
   ctx.restore();
 };
 
+/**
+ * Fills the CDT triangles that lost the empty-circle property
+ * @param ctx - 2D canvas context
+ * @param derived - Geometric structures
+ * @param points - Array of points
+ * @param t - Normalized time
+ */
+const drawNonDelaunayTriangles = (
+  ctx: CanvasRenderingContext2D,
+  derived: DerivedStructures,
+  points: Point[],
+  t: number
+): void => {
+  const triangles = derived.triangulation?.triangles;
+  if (!triangles || !derived.nonDelaunayTriangles?.length) {
+    return;
+  }
+  ctx.save();
+  ctx.fillStyle = `rgba(248, 113, 113, ${0.22 + 0.08 * Math.sin(t * 2)})`;
+  for (const triangle of derived.nonDelaunayTriangles) {
+    const a = points[triangles[3 * triangle]];
+    const b = points[triangles[3 * triangle + 1]];
+    const c = points[triangles[3 * triangle + 2]];
+    ctx.beginPath();
+    ctx.moveTo(a.x, a.y);
+    ctx.lineTo(b.x, b.y);
+    ctx.lineTo(c.x, c.y);
+    ctx.closePath();
+    ctx.fill();
+  }
+  ctx.restore();
+};
+
+/**
+ * Renders the constraint segments of the CDT
+ * @param ctx - 2D canvas context
+ * @param edges - Constraint edges as point indices
+ * @param points - Array of points
+ */
+const drawConstraintEdges = (
+  ctx: CanvasRenderingContext2D,
+  edges: EdgeIndex[],
+  points: Point[]
+): void => {
+  ctx.save();
+  ctx.lineCap = "round";
+  ctx.strokeStyle = "rgba(251, 191, 36, 0.95)";
+  ctx.shadowColor = "rgba(251, 191, 36, 0.7)";
+  ctx.shadowBlur = 14;
+  ctx.lineWidth = 4.5;
+  ctx.beginPath();
+  for (const [ai, bi] of edges) {
+    ctx.moveTo(points[ai].x, points[ai].y);
+    ctx.lineTo(points[bi].x, points[bi].y);
+  }
+  ctx.stroke();
+  ctx.restore();
+};
+
+/**
+ * Renders a refinement mesh
+ * Domain triangles are tinted by their smallest angle (red for slivers,
+ * the mode hue towards 60°), Steiner points are drawn as small dots
+ * @param ctx - 2D canvas context
+ * @param mesh - Refinement mesh
+ * @param t - Normalized time
+ * @param baseHue - Base hue for the mode
+ */
+const drawRefinementMesh = (
+  ctx: CanvasRenderingContext2D,
+  mesh: RefinementMesh,
+  t: number,
+  baseHue: number
+): void => {
+  const { vertices, inside } = mesh;
+  const { triangles } = mesh.triangulation;
+  ctx.save();
+  ctx.lineJoin = "round";
+  ctx.lineWidth = 1;
+  for (let triangle = 0; triangle < inside.length; triangle += 1) {
+    if (!inside[triangle]) {
+      continue;
+    }
+    const a = vertices[triangles[3 * triangle]];
+    const b = vertices[triangles[3 * triangle + 1]];
+    const c = vertices[triangles[3 * triangle + 2]];
+    const quality = Math.min(1, triangleMinAngle(a, b, c) / 60);
+    const hue = quality * baseHue;
+    ctx.beginPath();
+    ctx.moveTo(a.x, a.y);
+    ctx.lineTo(b.x, b.y);
+    ctx.lineTo(c.x, c.y);
+    ctx.closePath();
+    ctx.fillStyle = `hsla(${hue}, 70%, 38%, ${0.28 + 0.04 * Math.sin(t * 2)})`;
+    ctx.fill();
+    ctx.strokeStyle = `hsla(${hue}, 80%, 75%, 0.55)`;
+    ctx.stroke();
+  }
+
+  ctx.fillStyle = `hsla(${(baseHue + 40) % 360}, 90%, 80%, 0.9)`;
+  for (let index = mesh.inputCount; index < vertices.length; index += 1) {
+    ctx.beginPath();
+    ctx.arc(vertices[index].x, vertices[index].y, 2, 0, Math.PI * 2);
+    ctx.fill();
+  }
+  ctx.restore();
+};
+
+/**
+ * Highlights the feature of a persistence interval
+ * A hole is filled with the triangles covering it at birth, a component is
+ * shown by rings around its points and the edge merging it
+ * @param ctx - 2D canvas context
+ * @param interval - Selected interval
+ * @param points - Array of points
+ * @param t - Normalized time
+ */
+const drawPersistenceInterval = (
+  ctx: CanvasRenderingContext2D,
+  interval: PersistenceInterval,
+  points: Point[],
+  t: number
+): void => {
+  const pulse = 0.5 + 0.5 * Math.sin(t * 3);
+  ctx.save();
+  ctx.fillStyle = `rgba(250, 204, 21, ${0.18 + 0.12 * pulse})`;
+  for (const [ai, bi, ci] of interval.triangles) {
+    const a = points[ai];
+    const b = points[bi];
+    const c = points[ci];
+    if (!a || !b || !c) {
+      continue;
+    }
+    ctx.beginPath();
+    ctx.moveTo(a.x, a.y);
+    ctx.lineTo(b.x, b.y);
+    ctx.lineTo(c.x, c.y);
+    ctx.closePath();
+    ctx.fill();
+  }
+
+  ctx.strokeStyle = "rgba(250, 204, 21, 0.9)";
+  ctx.lineWidth = 2;
+  for (const index of interval.vertices) {
+    const point = points[index];
+    if (!point) {
+      continue;
+    }
+    ctx.beginPath();
+    ctx.arc(point.x, point.y, POINT_RADIUS + 4 + 2 * pulse, 0, Math.PI * 2);
+    ctx.stroke();
+  }
+
+  if (interval.edge) {
+    const a = points[interval.edge[0]];
+    const b = points[interval.edge[1]];
+    if (a && b) {
+      ctx.setLineDash([8, 6]);
+      ctx.lineWidth = 3;
+      ctx.beginPath();
+      ctx.moveTo(a.x, a.y);
+      ctx.lineTo(b.x, b.y);
+      ctx.stroke();
+    }
+  }
+  ctx.restore();
+};
+
+/**
+ * Renders the isolated vertices of the alpha complex as dashed rings
+ * @param ctx - 2D canvas context
+ * @param indices - Isolated point indices
+ * @param points - Array of points
+ * @param t - Normalized time
+ * @param baseHue - Base hue for the mode
+ */
+const drawIsolatedVertices = (
+  ctx: CanvasRenderingContext2D,
+  indices: number[],
+  points: Point[],
+  t: number,
+  baseHue: number
+): void => {
+  ctx.save();
+  ctx.setLineDash([3, 3]);
+  ctx.lineDashOffset = -t * 8;
+  ctx.lineWidth = 1.5;
+  ctx.strokeStyle = `hsla(${baseHue}, 85%, 78%, 0.8)`;
+  for (const index of indices) {
+    ctx.beginPath();
+    ctx.arc(points[index].x, points[index].y, POINT_RADIUS + 5, 0, Math.PI * 2);
+    ctx.stroke();
+  }
+  ctx.restore();
+};
+
+/**
+ * Renders the Voronoi vertices inserted by the crust reconstruction
+ * Drawn as small hollow diamonds to distinguish them from the samples
+ * @param ctx - 2D canvas context
+ * @param vertices - Voronoi vertex coordinates
+ * @param t - Normalized time
+ * @param baseHue - Base hue for the mode
+ */
+const drawVoronoiVertices = (
+  ctx: CanvasRenderingContext2D,
+  vertices: Array<[number, number]>,
+  t: number,
+  baseHue: number
+): void => {
+  const size = POINT_RADIUS * 0.55;
+  const hue = (baseHue + 180 + t * 20) % 360;
+  ctx.save();
+  ctx.strokeStyle = `hsla(${hue}, 85%, 72%, 0.75)`;
+  ctx.fillStyle = `hsla(${hue}, 80%, 40%, 0.25)`;
+  ctx.lineWidth = 1.4;
+  for (const [x, y] of vertices) {
+    ctx.beginPath();
+    ctx.moveTo(x, y - size);
+    ctx.lineTo(x + size, y);
+    ctx.lineTo(x, y + size);
+    ctx.lineTo(x - size, y);
+    ctx.closePath();
+    ctx.fill();
+    ctx.stroke();
+  }
+  ctx.restore();
+};
+
+/**
+ * Renders the approximate medial axis and the inscribed disk of the hovered
+ * medial vertex
+ * @param ctx - 2D canvas context
+ * @param medialAxis - Medial axis vertices and edges
+ * @param highlighted - Hovered vertex index, or null
+ * @param t - Normalized time
+ * @param baseHue - Base hue for the mode
+ */
+const drawMedialAxis = (
+  ctx: CanvasRenderingContext2D,
+  medialAxis: MedialAxis,
+  highlighted: number | null,
+  t: number,
+  baseHue: number
+): void => {
+  const hue = (baseHue + 160 + t * 20) % 360;
+  const { vertices, edges } = medialAxis;
+  ctx.save();
+
+  ctx.strokeStyle = `hsla(${hue}, 90%, 68%, 0.9)`;
+  ctx.lineWidth = 1.6;
+  ctx.beginPath();
+  for (const [u, v] of edges) {
+    ctx.moveTo(vertices[u].x, vertices[u].y);
+    ctx.lineTo(vertices[v].x, vertices[v].y);
+  }
+  ctx.stroke();
+
+  ctx.fillStyle = `hsla(${hue}, 90%, 75%, 0.9)`;
+  for (const { x, y } of vertices) {
+    ctx.beginPath();
+    ctx.arc(x, y, 1.8, 0, Math.PI * 2);
+    ctx.fill();
+  }
+
+  const vertex = highlighted === null ? undefined : vertices[highlighted];
+  if (vertex) {
+    ctx.beginPath();
+    ctx.arc(vertex.x, vertex.y, vertex.radius, 0, Math.PI * 2);
+    ctx.fillStyle = `hsla(${hue}, 80%, 60%, 0.12)`;
+    ctx.fill();
+    ctx.strokeStyle = `hsla(${hue}, 90%, 80%, 0.95)`;
+    ctx.lineWidth = 1.4;
+    ctx.stroke();
+    ctx.beginPath();
+    ctx.arc(vertex.x, vertex.y, 3.5, 0, Math.PI * 2);
+    ctx.fillStyle = `hsla(${hue}, 95%, 85%, 1)`;
+    ctx.fill();
+  }
+
+  ctx.restore();
+};
+
+/**
+ * Renders the weight circle of each weighted point
+ * @param ctx - 2D canvas context
+ * @param points - Array of points
+ * @param t - Normalized time
+ * @param baseHue - Base hue for the mode
+ */
+const drawWeightCircles = (
+  ctx: CanvasRenderingContext2D,
+  points: Point[],
+  t: number,
+  baseHue: number
+): void => {
+  ctx.save();
+  ctx.lineWidth = 1.6;
+  points.forEach((point, index) => {
+    const weight = point.weight ?? 0;
+    if (weight <= 0) {
+      return;
+    }
+    const hue = (baseHue + index * 17 + t * 26) % 360;
+    ctx.beginPath();
+    ctx.arc(point.x, point.y, weight, 0, Math.PI * 2);
+    ctx.fillStyle = `hsla(${hue}, 80%, 60%, 0.1)`;
+    ctx.fill();
+    ctx.strokeStyle = `hsla(${hue}, 90%, 75%, 0.7)`;
+    ctx.stroke();
+  });
+  ctx.restore();
+};
+
 /**
  * Renders interactive points
  * @param ctx - 2D canvas context
@@ -575,21 +1469,32 @@ const drawGraphEdges = (
  * @param mode - Visualization mode
  * @param t - Normalized time
  * @param baseHue - Base hue for the mode
+ * @param mutedIndices - Optional indices drawn as small grey dots
  */
 const drawPoints = (
   ctx: CanvasRenderingContext2D,
   points: Point[],
   mode: GraphMode,
   t: number,
-  baseHue: number
+  baseHue: number,
+  mutedIndices: Set<number> | null
 ): void => {
   ctx.save();
   ctx.globalCompositeOperation = "lighter";
   for (let index = 0; index < points.length; index += 1) {
     const point = points[index];
-    // In brute force mode, use discrete (rounded) coordinates for consistency
-    const drawX = mode === "voronoi-bruteforce" ? Math.round(point.x) : point.x;
-    const drawY = mode === "voronoi-bruteforce" ? Math.round(point.y) : point.y;
+    if (mutedIndices?.has(index)) {
+      ctx.beginPath();
+      ctx.shadowBlur = 0;
+      ctx.fillStyle = "rgba(148, 163, 184, 0.45)";
+      ctx.arc(point.x, point.y, POINT_RADIUS * 0.55, 0, Math.PI * 2);
+      ctx.fill();
+      continue;
+    }
+    // In raster modes, use discrete (rounded) coordinates for consistency
+    const isRaster = RASTER_MODES.includes(mode);
+    const drawX = isRaster ? Math.round(point.x) : point.x;
+    const drawY = isRaster ? Math.round(point.y) : point.y;
     const hue = (baseHue + index * 17 + t * 26) % 360;
     ctx.beginPath();
     ctx.fillStyle = `hsla(${hue}, 95%, 92%, 0.92)`;
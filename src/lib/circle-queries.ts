@@ -0,0 +1,279 @@
+/**
+ * @fileoverview Circle queries on point sets
+ * Implements facility-location style circle computations:
+ * - Smallest enclosing circle (Welzl)
+ * - Largest empty circle (Voronoi vertices and boundary crossings)
+ * - Diameter and width (rotating calipers on the convex hull)
+ */
+
+import { Delaunay } from "d3-delaunay";
+import { EPSILON } from "./constants";
+import {
+  CaliperMeasures,
+  Circle,
+  CircleAnalysis,
+  CircleDomain,
+  Point,
+} from "./types";
+import {
+  circumcenter,
+  clipPolygonByHalfPlane,
+  pseudoRandom,
+} from "./math-utils";
+import { computeConvexHull } from "./convex-layers";
+
+/**
+ * Circle having the segment ab as diameter
+ * @param a - First point
+ * @param b - Second point
+ * @returns Diametral circle
+ */
+const circleFromTwo = (a: Point, b: Point): Circle => ({
+  x: (a.x + b.x) / 2,
+  y: (a.y + b.y) / 2,
+  radius: Math.hypot(a.x - b.x, a.y - b.y) / 2,
+});
+
+/**
+ * Circumcircle of three points
+ * Falls back to the diametral circle of the farthest pair when collinear
+ * @param a - First point
+ * @param b - Second point
+ * @param c - Third point
+ * @returns Circumscribed circle
+ */
+const circleFromThree = (a: Point, b: Point, c: Point): Circle => {
+  const center = circumcenter(a, b, c);
+  if (!center) {
+    const candidates = [circleFromTwo(a, b), circleFromTwo(a, c), circleFromTwo(b, c)];
+    return candidates.reduce((best, circle) =>
+      circle.radius > best.radius ? circle : best
+    );
+  }
+
+  const [x, y] = center;
+  return { x, y, radius: Math.hypot(x - a.x, y - a.y) };
+};
+
+/**
+ * Checks whether a point lies in a circle (with tolerance)
+ * @param circle - Circle
+ * @param point - Tested point
+ * @returns True if the point is inside or on the circle
+ */
+const circleContains = (circle: Circle, point: Point): boolean =>
+  Math.hypot(point.x - circle.x, point.y - circle.y) <=
+  circle.radius * (1 + EPSILON) + EPSILON;
+
+/**
+ * Computes the smallest enclosing circle using Welzl's algorithm
+ * Iterative move-to-front formulation on a shuffled copy of the points
+ * Expected time complexity: O(n)
+ * @param points - Point set
+ * @returns Smallest enclosing circle, or null for an empty set
+ */
+export const computeSmallestEnclosingCircle = (
+  points: Point[]
+): Circle | null => {
+  if (points.length === 0) {
+    return null;
+  }
+
+  // Deterministic shuffle keeps the expected linear time without flicker
+  const shuffled = points
+    .map((point, index) => ({ point, key: pseudoRandom(index + 7) }))
+    .sort((a, b) => a.key - b.key)
+    .map(({ point }) => point);
+
+  let circle: Circle = { x: shuffled[0].x, y: shuffled[0].y, radius: 0 };
+
+  for (let i = 1; i < shuffled.length; i += 1) {
+    const p = shuffled[i];
+    if (circleContains(circle, p)) {
+      continue;
+    }
+    circle = { x: p.x, y: p.y, radius: 0 };
+    for (let j = 0; j < i; j += 1) {
+      const q = shuffled[j];
+      if (circleContains(circle, q)) {
+        continue;
+      }
+      circle = circleFromTwo(p, q);
+      for (let k = 0; k < j; k += 1) {
+        const r = shuffled[k];
+        if (!circleContains(circle, r)) {
+          circle = circleFromThree(p, q, r);
+        }
+      }
+    }
+  }
+
+  return circle;
+};
+
+/**
+ * Computes the largest empty circle whose centre lies in a domain
+ * The optimal centre is a vertex of a Voronoi cell clipped to the domain:
+ * a Voronoi vertex, a crossing of a Voronoi edge with the domain boundary or
+ * a domain corner. The radius at a vertex of cell i is its distance to site i.
+ * @param points - Point set
+ * @param width - Canvas width
+ * @param height - Canvas height
+ * @param domain - Canvas bounds or convex hull of the points
+ * @returns Largest empty circle, or null if the domain is degenerate
+ */
+export const computeLargestEmptyCircle = (
+  points: Point[],
+  width: number,
+  height: number,
+  domain: CircleDomain
+): Circle | null => {
+  if (points.length === 0) {
+    return null;
+  }
+
+  // Hull domain as half-planes a·x + b·y ≤ c, oriented towards the centroid
+  const halfPlanes: Array<[number, number, number]> = [];
+  if (domain === "hull") {
+    const hull = computeConvexHull(
+      points,
+      points.map((_, index) => index)
+    );
+    if (hull.length < 3) {
+      return null;
+    }
+    const cx = hull.reduce((sum, index) => sum + points[index].x, 0) / hull.length;
+    const cy = hull.reduce((sum, index) => sum + points[index].y, 0) / hull.length;
+    hull.forEach((index, order) => {
+      const p = points[index];
+      const q = points[hull[(order + 1) % hull.length]];
+      let a = q.y - p.y;
+      let b = p.x - q.x;
+      let c = a * p.x + b * p.y;
+      if (a * cx + b * cy > c) {
+        a = -a;
+        b = -b;
+        c = -c;
+      }
+      halfPlanes.push([a, b, c]);
+    });
+  }
+
+  const delaunay = Delaunay.from(points, (p) => p.x, (p) => p.y);
+  const voronoi = delaunay.voronoi([0, 0, width, height]);
+  let best: Circle | null = null;
+
+  points.forEach((site, index) => {
+    let cell = (voronoi.cellPolygon(index) ?? []) as Array<[number, number]>;
+    for (const [a, b, c] of halfPlanes) {
+      cell = clipPolygonByHalfPlane(cell, a, b, c);
+    }
+    for (const [x, y] of cell) {
+      const radius = Math.hypot(x - site.x, y - site.y);
+      if (!best || radius > best.radius) {
+        best = { x, y, radius };
+      }
+    }
+  });
+
+  return best;
+};
+
+/**
+ * Computes the diameter and the width of a point set (rotating calipers)
+ * For every hull edge, the farthest hull vertex from its supporting line is
+ * found by advancing a second caliper monotonically. The width is the
+ * smallest of these edge-to-vertex distances; the diameter is the longest
+ * distance between antipodal vertex pairs.
+ * Time complexity: O(n log n) for the hull, O(h) for the calipers
+ * @param points - Point set
+ * @returns Diameter and width, or null for fewer than two points
+ */
+export const computeCaliperMeasures = (
+  points: Point[]
+): CaliperMeasures | null => {
+  const hull = computeConvexHull(
+    points,
+    points.map((_, index) => index)
+  );
+  if (hull.length < 2) {
+    return null;
+  }
+  if (hull.length === 2) {
+    const [a, b] = hull;
+    return {
+      diameter: {
+        endpoints: [a, b],
+        length: Math.hypot(points[a].x - points[b].x, points[a].y - points[b].y),
+      },
+      width: { edge: [a, b], apex: a, length: 0 },
+    };
+  }
+
+  const h = hull.length;
+  const at = (i: number) => points[hull[i % h]];
+  const area2 = (i: number, j: number, k: number) => {
+    const a = at(i);
+    const b = at(j);
+    const c = at(k);
+    return Math.abs((b.x - a.x) * (c.y - a.y) - (b.y - a.y) * (c.x - a.x));
+  };
+  const length = (i: number, j: number) =>
+    Math.hypot(at(i).x - at(j).x, at(i).y - at(j).y);
+
+  let diameter: CaliperMeasures["diameter"] = {
+    endpoints: [hull[0], hull[1]],
+    length: length(0, 1),
+  };
+  // Placeholder for the first edge; the first caliper step replaces it
+  let widthMeasure: CaliperMeasures["width"] = {
+    edge: [hull[0], hull[1]],
+    apex: hull[0],
+    length: Infinity,
+  };
+
+  let j = 1;
+  for (let i = 0; i < h; i += 1) {
+    // Advance the antipodal caliper while it moves away from edge (i, i + 1)
+    while (area2(i, i + 1, j + 1) > area2(i, i + 1, j)) {
+      j += 1;
+    }
+    const edgeLength = length(i, i + 1);
+    const distance = area2(i, i + 1, j) / edgeLength;
+    if (distance < widthMeasure.length) {
+      widthMeasure = {
+        edge: [hull[i], hull[(i + 1) % h]],
+        apex: hull[j % h],
+        length: distance,
+      };
+    }
+    for (const k of [i, i + 1]) {
+      const candidate = length(k, j);
+      if (candidate > diameter.length) {
+        diameter = { endpoints: [hull[k % h], hull[j % h]], length: candidate };
+      }
+    }
+  }
+
+  return { diameter, width: widthMeasure };
+};
+
+/**
+ * Runs all circle and caliper queries of the analysis panel
+ * @param points - Point set
+ * @param width - Canvas width
+ * @param height - Canvas height
+ * @param domain - Domain of the largest empty circle centre
+ * @returns Circle analysis results
+ */
+export const computeCircleAnalysis = (
+  points: Point[],
+  width: number,
+  height: number,
+  domain: CircleDomain
+): CircleAnalysis => ({
+  domain,
+  largestEmptyCircle: computeLargestEmptyCircle(points, width, height, domain),
+  enclosingCircle: computeSmallestEnclosingCircle(points),
+  calipers: computeCaliperMeasures(points),
+});
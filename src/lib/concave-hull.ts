@@ -0,0 +1,385 @@
+/**
+ * @fileoverview Concave hulls as a single simple polygon
+ * Unlike the alpha shape, which may split into several components, keep holes
+ * or leave points outside, both algorithms return one simple polygon through
+ * some of the points and enclosing all of them:
+ * - χ-shape (Duckham et al.): erodes the Delaunay triangulation from the
+ *   convex hull, removing the longest boundary edge while the boundary stays
+ *   a simple polygon
+ * - k-NN concave hull (Moreira–Santos): gift wrapping restricted to the k
+ *   nearest neighbours, taking the sharpest right turn that does not cross
+ *   the hull built so far; k grows until every point is enclosed
+ */
+
+import { Delaunay } from "d3-delaunay";
+import { ConcaveHull, EdgeIndex, Point } from "./types";
+import { computeConvexHull } from "./convex-layers";
+import { isPointInPolygon, nextHalfedge } from "./math-utils";
+
+/**
+ * Signed area test of the triangle (a, b, c)
+ * @returns Positive, negative or zero depending on the side of c
+ */
+const cross = (a: Point, b: Point, c: Point): number =>
+  (b.x - a.x) * (c.y - a.y) - (b.y - a.y) * (c.x - a.x);
+
+/**
+ * Proper intersection test of the segments [a, b] and [c, d]
+ * Segments sharing an endpoint are tested by the caller, which skips them.
+ * @returns True if the segments cross or overlap
+ */
+const segmentsIntersect = (a: Point, b: Point, c: Point, d: Point): boolean => {
+  const d1 = cross(c, d, a);
+  const d2 = cross(c, d, b);
+  const d3 = cross(a, b, c);
+  const d4 = cross(a, b, d);
+  if (d1 * d2 < 0 && d3 * d4 < 0) {
+    return true;
+  }
+  // Collinear overlap
+  const within = (p: Point, q: Point, r: Point) =>
+    Math.min(p.x, q.x) <= r.x &&
+    r.x <= Math.max(p.x, q.x) &&
+    Math.min(p.y, q.y) <= r.y &&
+    r.y <= Math.max(p.y, q.y);
+  return (
+    (d1 === 0 && within(c, d, a)) ||
+    (d2 === 0 && within(c, d, b)) ||
+    (d3 === 0 && within(a, b, c)) ||
+    (d4 === 0 && within(a, b, d))
+  );
+};
+
+/**
+ * Wraps a ring with its area and perimeter
+ * @param points - Point set
+ * @param ring - Polygon vertex indices
+ * @param k - Effective number of neighbours (k-NN hull), null otherwise
+ * @returns Concave hull
+ */
+const toConcaveHull = (
+  points: Point[],
+  ring: number[],
+  k: number | null
+): ConcaveHull => {
+  let area = 0;
+  let perimeter = 0;
+  for (let i = 0; i < ring.length; i += 1) {
+    const a = points[ring[i]];
+    const b = points[ring[(i + 1) % ring.length]];
+    area += a.x * b.y - b.x * a.y;
+    perimeter += Math.hypot(b.x - a.x, b.y - a.y);
+  }
+  return { ring, area: Math.abs(area) / 2, perimeter, k };
+};
+
+/**
+ * Computes the χ-shape of the points
+ * The length threshold is λ of the way from the shortest to the longest
+ * Delaunay edge: λ = 1 keeps the convex hull, λ = 0 erodes as far as the
+ * simplicity constraint allows.
+ * @param points - Point set
+ * @param delaunay - Delaunay triangulation
+ * @param edges - Delaunay edges
+ * @param lambda - Normalized length threshold in [0, 1]
+ * @returns Concave hull (empty ring without any triangle)
+ */
+export const computeChiShape = (
+  points: Point[],
+  delaunay: Delaunay<Point>,
+  edges: EdgeIndex[],
+  lambda: number
+): ConcaveHull => {
+  const { triangles, halfedges, hull } = delaunay;
+  if (!triangles.length) {
+    return toConcaveHull(points, [], null);
+  }
+  const lengthOf = (e: number): number => {
+    const a = points[triangles[e]];
+    const b = points[triangles[nextHalfedge(e)]];
+    return Math.hypot(b.x - a.x, b.y - a.y);
+  };
+  let shortest = Infinity;
+  let longest = 0;
+  for (const [i, j] of edges) {
+    const length = Math.hypot(
+      points[i].x - points[j].x,
+      points[i].y - points[j].y
+    );
+    shortest = Math.min(shortest, length);
+    longest = Math.max(longest, length);
+  }
+  const threshold = shortest + lambda * (longest - shortest);
+
+  const removed = new Uint8Array(triangles.length / 3);
+  const onBoundary = new Uint8Array(points.length);
+  for (const vertex of hull) {
+    onBoundary[vertex] = 1;
+  }
+  // Boundary halfedges, longest last so that pop() takes it
+  const queue: number[] = [];
+  for (let e = 0; e < triangles.length; e += 1) {
+    if (halfedges[e] === -1) {
+      queue.push(e);
+    }
+  }
+  queue.sort((a, b) => lengthOf(a) - lengthOf(b));
+  const enqueue = (e: number) => {
+    const length = lengthOf(e);
+    let low = 0;
+    let high = queue.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (lengthOf(queue[middle]) < length) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+    queue.splice(low, 0, e);
+  };
+
+  while (queue.length) {
+    const e = queue.pop() as number;
+    if (lengthOf(e) <= threshold) {
+      break;
+    }
+    const inner = nextHalfedge(e);
+    const apex = triangles[nextHalfedge(inner)];
+    // An apex already on the boundary would pinch the polygon; boundary
+    // vertices never leave it, so the edge is discarded for good
+    if (onBoundary[apex]) {
+      continue;
+    }
+    removed[Math.floor(e / 3)] = 1;
+    onBoundary[apex] = 1;
+    enqueue(halfedges[inner]);
+    enqueue(halfedges[nextHalfedge(inner)]);
+  }
+
+  // Chain the boundary halfedges: each boundary vertex starts exactly one
+  const outgoing = new Map<number, number>();
+  for (let e = 0; e < triangles.length; e += 1) {
+    const twin = halfedges[e];
+    if (
+      !removed[Math.floor(e / 3)] &&
+      (twin === -1 || removed[Math.floor(twin / 3)])
+    ) {
+      outgoing.set(triangles[e], e);
+    }
+  }
+  const ring: number[] = [];
+  const [start] = outgoing.keys();
+  let vertex = start;
+  do {
+    ring.push(vertex);
+    vertex = triangles[nextHalfedge(outgoing.get(vertex) as number)];
+  } while (vertex !== start && ring.length <= outgoing.size);
+  return toConcaveHull(points, ring, null);
+};
+
+/**
+ * Lists the nearest vertices of a point among the candidates
+ * Best-first search on the Delaunay graph, which visits the points in exact
+ * order of distance; non-candidates are crossed but not returned.
+ * @param points - Point set
+ * @param neighbours - Delaunay adjacency lists
+ * @param origin - Query vertex
+ * @param candidates - Vertices that may be returned
+ * @param k - Number of vertices
+ * @returns Up to k candidate vertices, nearest first
+ */
+const nearestCandidates = (
+  points: Point[],
+  neighbours: number[][],
+  origin: number,
+  candidates: Set<number>,
+  k: number
+): number[] => {
+  const center = points[origin];
+  const seen = new Set<number>([origin]);
+  const frontier: Array<{ vertex: number; distance: number }> = [];
+  const expand = (from: number) => {
+    for (const vertex of neighbours[from]) {
+      if (!seen.has(vertex)) {
+        seen.add(vertex);
+        frontier.push({
+          vertex,
+          distance: Math.hypot(
+            points[vertex].x - center.x,
+            points[vertex].y - center.y
+          ),
+        });
+      }
+    }
+  };
+  expand(origin);
+
+  const nearest: number[] = [];
+  while (nearest.length < k && frontier.length) {
+    let best = 0;
+    for (let i = 1; i < frontier.length; i += 1) {
+      if (frontier[i].distance < frontier[best].distance) {
+        best = i;
+      }
+    }
+    const [{ vertex }] = frontier.splice(best, 1);
+    if (candidates.has(vertex)) {
+      nearest.push(vertex);
+    }
+    expand(vertex);
+  }
+  return nearest;
+};
+
+/**
+ * Checks whether a point lies inside a ring or on its boundary
+ * @param points - Point set
+ * @param ring - Polygon vertex indices
+ * @param point - Tested point
+ * @returns True if enclosed
+ */
+const isEnclosed = (points: Point[], ring: number[], point: Point): boolean => {
+  for (let i = 0; i < ring.length; i += 1) {
+    const a = points[ring[i]];
+    const b = points[ring[(i + 1) % ring.length]];
+    const length = Math.hypot(b.x - a.x, b.y - a.y);
+    const offset = Math.abs(cross(a, b, point)) / (length || 1);
+    const along =
+      ((point.x - a.x) * (b.x - a.x) + (point.y - a.y) * (b.y - a.y)) /
+      (length * length || 1);
+    if (offset < 1e-9 * (length + 1) && along >= 0 && along <= 1) {
+      return true;
+    }
+  }
+  return isPointInPolygon(
+    point.x,
+    point.y,
+    ring.map((index) => [points[index].x, points[index].y])
+  );
+};
+
+/**
+ * Gift-wraps the vertices with the k nearest candidates at each step
+ * @param points - Point set
+ * @param neighbours - Delaunay adjacency lists
+ * @param vertices - Distinct vertices of the triangulation
+ * @param k - Number of neighbours
+ * @returns Ring enclosing every vertex, null when k is too small
+ */
+const wrapWithNeighbours = (
+  points: Point[],
+  neighbours: number[][],
+  vertices: number[],
+  k: number
+): number[] | null => {
+  // Lowest point, reached as if walking in the −x direction
+  const first = vertices.reduce((best, vertex) =>
+    points[vertex].y < points[best].y ||
+    (points[vertex].y === points[best].y && points[vertex].x < points[best].x)
+      ? vertex
+      : best
+  );
+  const candidates = new Set(vertices);
+  candidates.delete(first);
+  const ring = [first];
+  let back = { x: 1, y: 0 };
+  let current = first;
+
+  while (current !== first || ring.length === 1) {
+    if (ring.length === 4) {
+      candidates.add(first);
+    }
+    const origin = points[current];
+    // Clockwise angle from the backward direction: the largest is the
+    // sharpest right turn
+    const turn = (vertex: number) => {
+      const vx = points[vertex].x - origin.x;
+      const vy = points[vertex].y - origin.y;
+      const ccw = Math.atan2(back.x * vy - back.y * vx, back.x * vx + back.y * vy);
+      return (2 * Math.PI - ccw) % (2 * Math.PI);
+    };
+    const sorted = nearestCandidates(
+      points,
+      neighbours,
+      current,
+      candidates,
+      k
+    ).sort((a, b) => turn(b) - turn(a));
+
+    const next = sorted.find((vertex) => {
+      // Skip the last edge (shares current) and, when closing, the first
+      const last = vertex === first ? 1 : 0;
+      for (let j = last; j < ring.length - 2; j += 1) {
+        if (
+          segmentsIntersect(
+            origin,
+            points[vertex],
+            points[ring[j]],
+            points[ring[j + 1]]
+          )
+        ) {
+          return false;
+        }
+      }
+      return true;
+    });
+    if (next === undefined) {
+      return null;
+    }
+    back = {
+      x: origin.x - points[next].x,
+      y: origin.y - points[next].y,
+    };
+    current = next;
+    candidates.delete(next);
+    if (next !== first) {
+      ring.push(next);
+    }
+  }
+
+  return vertices.every((vertex) => isEnclosed(points, ring, points[vertex]))
+    ? ring
+    : null;
+};
+
+/**
+ * Computes the k-NN concave hull of the points (Moreira–Santos)
+ * k starts at max(3, k) and grows until the wrap closes without crossing
+ * itself and encloses every point; past the number of points the convex
+ * hull is returned.
+ * @param points - Point set
+ * @param edges - Delaunay edges (neighbour graph of the k-NN queries)
+ * @param k - Initial number of neighbours
+ * @returns Concave hull with the effective k (empty ring without area)
+ */
+export const computeKnnConcaveHull = (
+  points: Point[],
+  edges: EdgeIndex[],
+  k: number
+): ConcaveHull => {
+  const neighbours: number[][] = points.map(() => []);
+  for (const [i, j] of edges) {
+    neighbours[i].push(j);
+    neighbours[j].push(i);
+  }
+  // Coincident points have no Delaunay edge and are covered by their twin
+  const vertices = points
+    .map((_, index) => index)
+    .filter((index) => neighbours[index].length);
+  if (vertices.length < 3) {
+    return toConcaveHull(points, [], null);
+  }
+
+  for (let size = Math.max(3, k); size < vertices.length; size += 1) {
+    const ring = wrapWithNeighbours(points, neighbours, vertices, size);
+    if (ring) {
+      return toConcaveHull(points, ring, size);
+    }
+  }
+  return toConcaveHull(
+    points,
+    computeConvexHull(points, vertices),
+    vertices.length
+  );
+};
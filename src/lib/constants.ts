@@ -3,7 +3,14 @@
  * Contains configuration values, initial data, and mode definitions
  */
 
-import { GraphMode, GraphModeOption } from "./types";
+import {
+  DistanceMetric,
+  DistanceMetricKind,
+  GraphMode,
+  GraphModeOption,
+  RGBColor,
+  SceneOverlays,
+} from "./types";
 
 /**
  * Graph mode options with UI metadata and descriptions
@@ -20,6 +27,41 @@ export const GRAPH_MODE_OPTIONS: GraphModeOption[] = [
     label: "Voronoï BF",
     description: "Diagramme discret par force brute",
   },
+  {
+    value: "voronoi-multiplicative",
+    label: "Voronoï ×",
+    description: "Distance divisée par le poids",
+  },
+  {
+    value: "voronoi-additive",
+    label: "Apollonius",
+    description: "Distance au cercle de poids",
+  },
+  {
+    value: "power",
+    label: "Puissance",
+    description: "Voronoï pondéré (Laguerre)",
+  },
+  {
+    value: "order-k",
+    label: "Ordre k",
+    description: "Régions des k plus proches sites",
+  },
+  {
+    value: "farthest",
+    label: "Plus lointain",
+    description: "Voronoï du site le plus éloigné",
+  },
+  {
+    value: "hull",
+    label: "Enveloppe",
+    description: "Enveloppe convexe et couches (pelure d'oignon)",
+  },
+  {
+    value: "stipple",
+    label: "Pointillé",
+    description: "Stippling de l'image (Secord)",
+  },
   {
     value: "alpha-shape",
     label: "Alpha-shape",
@@ -30,29 +72,55 @@ export const GRAPH_MODE_OPTIONS: GraphModeOption[] = [
     label: "Alpha-complex",
     description: "Triangles satisfaisant la contrainte α",
   },
+  {
+    value: "alpha-adaptive",
+    label: "α adaptatif",
+    description: "α local ∝ taille de caractéristique",
+  },
+  {
+    value: "concave-hull",
+    label: "Env. concave",
+    description: "χ-shape ou k plus proches voisins",
+  },
   {
     value: "nn-crust",
     label: "NN-crust",
-    description: "Arêtes vers le plus proche voisin",
-    disabled: true,
+    description: "Reconstruction de courbe (Dey–Kumar)",
+  },
+  {
+    value: "crust",
+    label: "Crust",
+    description: "Reconstruction via sommets de Voronoï",
+  },
+  {
+    value: "beta-skeleton",
+    label: "β-squelette",
+    description: "Famille continue de Gabriel à RNG",
   },
   {
     value: "gabriel",
     label: "Gabriel",
     description: "Disques de diamètre sans point intérieur",
-    disabled: true,
   },
   {
     value: "rng",
     label: "RNG",
     description: "Voisinages relatifs",
-    disabled: true,
   },
   {
     value: "mst",
     label: "ARM / MST",
     description: "Arbre de recouvrement minimal",
-    disabled: true,
+  },
+  {
+    value: "cdt",
+    label: "CDT",
+    description: "Delaunay contraint (Maj + glisser entre deux points)",
+  },
+  {
+    value: "mesh",
+    label: "Maillage",
+    description: "Raffinement de Delaunay (Ruppert)",
   },
 ];
 
@@ -63,14 +131,213 @@ export const GRAPH_MODE_OPTIONS: GraphModeOption[] = [
 export const MODE_BASE_HUE: Record<GraphMode, number> = {
   voronoi: 215,
   "voronoi-bruteforce": 215,
+  "voronoi-multiplicative": 200,
+  "voronoi-additive": 185,
+  power: 235,
+  "order-k": 160,
+  farthest: 20,
+  hull: 120,
+  stipple: 40,
   "alpha-shape": 195,
   "alpha-complex": 275,
+  "alpha-adaptive": 230,
+  "concave-hull": 100,
   "nn-crust": 345,
+  crust: 315,
+  "beta-skeleton": 45,
   gabriel: 255,
   rng: 35,
   mst: 175,
+  cdt: 290,
+  mesh: 150,
+};
+
+/**
+ * Modes that use per-point weights (Alt+drag edits them, circles are drawn)
+ */
+export const WEIGHTED_MODES: GraphMode[] = [
+  "power",
+  "voronoi-multiplicative",
+  "voronoi-additive",
+];
+
+/**
+ * Modes rendered pixel by pixel from a nearest-site label map
+ */
+export const RASTER_MODES: GraphMode[] = [
+  "voronoi-bruteforce",
+  "voronoi-multiplicative",
+  "voronoi-additive",
+];
+
+/**
+ * Weight radius (pixels) that doubles a site's multiplicative factor
+ */
+export const MULTIPLICATIVE_WEIGHT_UNIT = 40;
+
+/**
+ * Default state of the optional render layers
+ */
+export const DEFAULT_SCENE_OVERLAYS: SceneOverlays = {
+  showVoronoiVertices: true,
+  stipples: [],
+  showIsolines: false,
+  highlightedMedialVertex: null,
+  hullLayerCount: 1,
+  constraintPreview: null,
+  mesh: null,
+  highlightedInterval: null,
+  showUnionOfBalls: false,
+};
+
+/**
+ * Colour map of the distance field (dark = close to a site), magma-like stops
+ */
+export const DISTANCE_FIELD_COLOR_STOPS: RGBColor[] = [
+  { r: 0, g: 0, b: 4 },
+  { r: 81, g: 18, b: 124 },
+  { r: 183, g: 55, b: 121 },
+  { r: 252, g: 137, b: 97 },
+  { r: 252, g: 253, b: 191 },
+];
+
+/**
+ * Spacing of the isodistance lines, in distance units (px for L2)
+ */
+export const ISOLINE_SPACING = 20;
+
+/**
+ * Distance metrics selectable in the brute-force Voronoi mode
+ */
+export const DISTANCE_METRIC_OPTIONS: Array<{
+  kind: DistanceMetricKind;
+  label: string;
+}> = [
+  { kind: "euclidean", label: "L2" },
+  { kind: "manhattan", label: "L1" },
+  { kind: "chebyshev", label: "L∞" },
+  { kind: "minkowski", label: "Lp" },
+  { kind: "anisotropic", label: "Matrice" },
+];
+
+/**
+ * Default metric of the brute-force Voronoi mode (Euclidean, so the mode
+ * keeps matching the d3 diagram until another metric is chosen)
+ */
+export const DEFAULT_DISTANCE_METRIC: DistanceMetric = {
+  kind: "euclidean",
+  p: 3,
+  matrix: [1, 0.6, 0, 1],
 };
 
+/**
+ * Exponent range of the Minkowski metric (p ≥ 1 keeps a true norm)
+ */
+export const MINKOWSKI_P_MIN = 1;
+export const MINKOWSKI_P_MAX = 8;
+
+/**
+ * Relative tolerance under which two site distances are considered tied
+ * Tied pixels always go to the lowest site index, so bisector pixels do not
+ * flicker with floating-point noise
+ */
+export const DISTANCE_TIE_TOLERANCE = 1e-9;
+
+/**
+ * λ slider of the medial axis overlay (px)
+ */
+export const MEDIAL_AXIS_LAMBDA_DEFAULT = 10;
+export const MEDIAL_AXIS_LAMBDA_MAX = 120;
+
+/**
+ * Pick radius used to hover a medial axis vertex (px)
+ */
+export const MEDIAL_AXIS_HOVER_RADIUS = 12;
+
+/**
+ * Default β slider value (maps to β = 1, the Gabriel graph)
+ */
+export const BETA_SLIDER_DEFAULT = 0.5;
+
+/**
+ * Step of the β slider (arctan scale)
+ */
+export const BETA_SLIDER_STEP = 0.005;
+
+/**
+ * β values the slider snaps to: Gabriel graph (1) and RNG (2, lune variant)
+ */
+export const BETA_SNAP_VALUES = [1, 2];
+
+/**
+ * Default and maximum order of the order-k Voronoi diagram
+ * The number of regions grows as O(k·n), so k is capped for interactivity
+ */
+export const ORDER_K_DEFAULT = 2;
+export const ORDER_K_MAX = 8;
+
+/**
+ * Lloyd relaxation: default convergence threshold (max displacement, pixels)
+ * and number of energy samples kept for the plot
+ */
+export const LLOYD_THRESHOLD_DEFAULT = 0.5;
+export const LLOYD_ENERGY_HISTORY = 120;
+
+/**
+ * Weighted Voronoi stippling: dot radius range (pixels), default and maximum
+ * stipple counts, iteration cap and convergence threshold (pixels)
+ */
+export const STIPPLE_MIN_RADIUS = 0.6;
+export const STIPPLE_MAX_RADIUS = 2.6;
+export const STIPPLE_COUNT_DEFAULT = 4000;
+export const STIPPLE_COUNT_MAX = 12000;
+export const STIPPLE_MAX_ITERATIONS = 40;
+export const STIPPLE_THRESHOLD = 0.1;
+
+/**
+ * Delaunay refinement: minimum angle bound (degrees, Ruppert terminates up
+ * to about 20.7° and usually well beyond), maximum area range (px²), vertex
+ * budget, Steiner points inserted per animation frame and histogram bins
+ */
+export const MESH_MIN_ANGLE_DEFAULT = 20;
+export const MESH_MIN_ANGLE_MAX = 33;
+export const MESH_MAX_AREA_DEFAULT = 4000;
+export const MESH_MAX_AREA_MIN = 200;
+export const MESH_MAX_AREA_MAX = 20000;
+export const MESH_MAX_VERTICES = 3000;
+export const MESH_STEPS_PER_FRAME = 4;
+export const MESH_HISTOGRAM_BINS = 12;
+
+/**
+ * Persistence panel: most persistent intervals listed per dimension
+ */
+export const PERSISTENCE_MAX_BARS = 24;
+
+/**
+ * Number of alpha-shape components detailed in the stats overlay
+ */
+export const ALPHA_COMPONENTS_LISTED = 4;
+
+/**
+ * Default component count of the "target components" auto α strategy
+ */
+export const ALPHA_TARGET_COMPONENTS_DEFAULT = 2;
+
+/**
+ * Adaptive alpha mode: neighbours of the k-NN local feature size and range
+ * of the multiplier read from the α slider (×1 at the default slider value)
+ */
+export const ADAPTIVE_ALPHA_NEIGHBOURS = 4;
+export const ADAPTIVE_ALPHA_MULTIPLIER_MAX = 4;
+
+/**
+ * Concave hull mode: default χ-shape length threshold (fraction of the
+ * Delaunay edge length range) and k-NN neighbour count range
+ */
+export const CHI_LAMBDA_DEFAULT = 0.2;
+export const CONCAVE_K_DEFAULT = 5;
+export const CONCAVE_K_MAX = 30;
+
 /**
  * Initial seed positions for the default 10 points
  * Coordinates are normalized [0-1] and then scaled to canvas size
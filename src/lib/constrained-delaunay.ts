@@ -0,0 +1,407 @@
+/**
+ * @fileoverview Constrained Delaunay triangulation (CDT)
+ * Starts from the d3 Delaunay triangulation and inserts constraint segments
+ * by edge flips (Sloan, 1993): edges crossing a segment are flipped away until
+ * the segment appears, then the new edges are made locally Delaunay again
+ * without ever flipping a constrained edge. The mesh uses the same flat
+ * triangles / halfedges layout as d3-delaunay.
+ */
+
+import { Delaunay } from "d3-delaunay";
+import { EPSILON } from "./constants";
+import { ConstrainedTriangulation, EdgeIndex, Point } from "./types";
+import { nextHalfedge } from "./math-utils";
+
+/**
+ * Twice the signed area of the triangle (a, b, c)
+ * @returns Positive, negative or zero depending on the turn a → b → c
+ */
+const orient = (a: Point, b: Point, c: Point): number =>
+  (b.x - a.x) * (c.y - a.y) - (b.y - a.y) * (c.x - a.x);
+
+/**
+ * Checks whether d lies strictly inside the circumcircle of (a, b, c)
+ * The determinant sign is normalized by the triangle orientation
+ * @returns True if d is inside the circle
+ */
+export const isInCircumcircle = (
+  a: Point,
+  b: Point,
+  c: Point,
+  d: Point
+): boolean => {
+  const adx = a.x - d.x;
+  const ady = a.y - d.y;
+  const bdx = b.x - d.x;
+  const bdy = b.y - d.y;
+  const cdx = c.x - d.x;
+  const cdy = c.y - d.y;
+  const det =
+    (adx * adx + ady * ady) * (bdx * cdy - cdx * bdy) -
+    (bdx * bdx + bdy * bdy) * (adx * cdy - cdx * ady) +
+    (cdx * cdx + cdy * cdy) * (adx * bdy - bdx * ady);
+  const scale =
+    (adx * adx + ady * ady) * (bdx * bdx + bdy * bdy + cdx * cdx + cdy * cdy);
+  return det * Math.sign(orient(a, b, c)) > EPSILON * scale;
+};
+
+/**
+ * Checks whether the open segments pq and rs cross at a single interior point
+ * @returns True for a proper crossing
+ */
+const segmentsCross = (p: Point, q: Point, r: Point, s: Point): boolean => {
+  const d1 = orient(p, q, r);
+  const d2 = orient(p, q, s);
+  const d3 = orient(r, s, p);
+  const d4 = orient(r, s, q);
+  return d1 * d2 < 0 && d3 * d4 < 0;
+};
+
+/**
+ * Mutable mesh used while inserting constraints
+ */
+type Mesh = {
+  points: Point[];
+  triangles: Uint32Array;
+  halfedges: Int32Array;
+  constrained: Uint8Array;
+  /** Directed edge key u·n + v → halfedge index */
+  edgeIndex: Map<number, number>;
+};
+
+/**
+ * Finds the halfedge going from u to v
+ * @returns Halfedge index, or −1 if the edge does not exist
+ */
+const findHalfedge = (mesh: Mesh, u: number, v: number): number =>
+  mesh.edgeIndex.get(u * mesh.points.length + v) ?? -1;
+
+/**
+ * Finds a halfedge of the undirected edge {u, v}
+ * Hull edges only exist in one direction
+ * @returns Halfedge index, or −1 if the edge does not exist
+ */
+const findEdge = (mesh: Mesh, u: number, v: number): number => {
+  const forward = findHalfedge(mesh, u, v);
+  return forward !== -1 ? forward : findHalfedge(mesh, v, u);
+};
+
+/**
+ * Links two halfedges as twins
+ */
+const link = (mesh: Mesh, a: number, b: number): void => {
+  mesh.halfedges[a] = b;
+  if (b !== -1) {
+    mesh.halfedges[b] = a;
+  }
+};
+
+/**
+ * Registers the directed edge of a halfedge in the edge index
+ */
+const indexHalfedge = (mesh: Mesh, e: number): void => {
+  mesh.edgeIndex.set(
+    mesh.triangles[e] * mesh.points.length + mesh.triangles[nextHalfedge(e)],
+    e
+  );
+};
+
+/**
+ * Flips the edge of halfedge a (which must have a twin)
+ * Same array surgery as Delaunator's legalize step: the triangles (pr, pl, p0)
+ * and (pl, pr, p1) become (p1, pl, p0) and (p0, pr, p1).
+ * @returns Halfedge of the new diagonal p0 → p1
+ */
+const flipEdge = (mesh: Mesh, a: number): number => {
+  const { triangles, halfedges, constrained } = mesh;
+  const b = halfedges[a];
+  const a0 = a - (a % 3);
+  const b0 = b - (b % 3);
+  const al = a0 + ((a + 1) % 3);
+  const ar = a0 + ((a + 2) % 3);
+  const bl = b0 + ((b + 2) % 3);
+  const n = mesh.points.length;
+
+  const p0 = triangles[ar];
+  const pr = triangles[a];
+  const pl = triangles[al];
+  const p1 = triangles[bl];
+
+  mesh.edgeIndex.delete(pr * n + pl);
+  mesh.edgeIndex.delete(pl * n + pr);
+
+  // Constraint flags move with the outer edges
+  const constrainedBl = constrained[bl];
+  const constrainedAr = constrained[ar];
+
+  triangles[a] = p1;
+  triangles[b] = p0;
+
+  const hbl = halfedges[bl];
+  const har = halfedges[ar];
+  link(mesh, a, hbl);
+  link(mesh, b, har);
+  link(mesh, ar, bl);
+
+  constrained[a] = constrainedBl;
+  constrained[b] = constrainedAr;
+  constrained[ar] = 0;
+  constrained[bl] = 0;
+
+  for (const e of [a, b, ar, bl]) {
+    indexHalfedge(mesh, e);
+  }
+  return ar;
+};
+
+/**
+ * Marks both halfedges of an edge as constrained
+ */
+const markConstrained = (mesh: Mesh, e: number): void => {
+  mesh.constrained[e] = 1;
+  if (mesh.halfedges[e] !== -1) {
+    mesh.constrained[mesh.halfedges[e]] = 1;
+  }
+};
+
+/**
+ * Restores the local Delaunay property around freshly created edges
+ * Constrained edges are never flipped
+ * @param mesh - Mesh
+ * @param edges - Vertex pairs to check
+ */
+const legalizeEdges = (mesh: Mesh, edges: EdgeIndex[]): void => {
+  const { points, triangles, halfedges, constrained } = mesh;
+  const limit = 3 * triangles.length + 10 * edges.length;
+  const stack = edges.slice();
+
+  for (let guard = 0; stack.length && guard < limit; guard += 1) {
+    const [u, v] = stack.pop()!;
+    const e = findHalfedge(mesh, u, v);
+    if (e === -1 || constrained[e] || halfedges[e] === -1) {
+      continue;
+    }
+    const t = halfedges[e];
+    const opposite = points[triangles[nextHalfedge(nextHalfedge(e))]];
+    const far = points[triangles[nextHalfedge(nextHalfedge(t))]];
+    if (!isInCircumcircle(points[u], points[v], opposite, far)) {
+      continue;
+    }
+    const diagonal = flipEdge(mesh, e);
+    const p0 = triangles[diagonal];
+    const p1 = triangles[nextHalfedge(diagonal)];
+    // The four outer edges of the new quad may have become illegal
+    stack.push([p0, u], [u, p1], [p1, v], [v, p0]);
+  }
+};
+
+/**
+ * Inserts one constraint segment
+ * A segment passing through other vertices is split at them; a segment
+ * crossing an existing constraint is rejected.
+ * @param mesh - Mesh
+ * @param a - First endpoint
+ * @param b - Second endpoint
+ * @returns True if the whole segment was inserted
+ */
+const insertConstraint = (mesh: Mesh, a: number, b: number): boolean => {
+  const { points, triangles, halfedges, constrained } = mesh;
+  if (a === b) {
+    return false;
+  }
+
+  const existing = findEdge(mesh, a, b);
+  if (existing !== -1) {
+    markConstrained(mesh, existing);
+    return true;
+  }
+
+  // Split at vertices lying on the open segment
+  const pa = points[a];
+  const pb = points[b];
+  const lengthSquared = (pb.x - pa.x) ** 2 + (pb.y - pa.y) ** 2;
+  for (let c = 0; c < points.length; c += 1) {
+    if (c === a || c === b) {
+      continue;
+    }
+    const pc = points[c];
+    const along = (pc.x - pa.x) * (pb.x - pa.x) + (pc.y - pa.y) * (pb.y - pa.y);
+    if (
+      along > 0 &&
+      along < lengthSquared &&
+      Math.abs(orient(pa, pb, pc)) <= EPSILON * lengthSquared
+    ) {
+      const first = insertConstraint(mesh, a, c);
+      const second = insertConstraint(mesh, c, b);
+      return first && second;
+    }
+  }
+
+  // Edges crossing the segment, as vertex pairs
+  const crossing: EdgeIndex[] = [];
+  for (let e = 0; e < triangles.length; e += 1) {
+    const twin = halfedges[e];
+    if (twin !== -1 && twin < e) {
+      continue;
+    }
+    const u = triangles[e];
+    const v = triangles[nextHalfedge(e)];
+    if (u === a || u === b || v === a || v === b) {
+      continue;
+    }
+    if (segmentsCross(pa, pb, points[u], points[v])) {
+      if (constrained[e]) {
+        return false;
+      }
+      crossing.push([u, v]);
+    }
+  }
+
+  // Flip crossing edges whose quad is convex until none remains
+  const created: EdgeIndex[] = [];
+  const limit = crossing.length * crossing.length + 16;
+  for (let guard = 0; crossing.length && guard < limit * 4; guard += 1) {
+    const [u, v] = crossing.shift()!;
+    const e = findHalfedge(mesh, u, v);
+    if (e === -1) {
+      continue;
+    }
+    const p0 = triangles[nextHalfedge(nextHalfedge(e))];
+    const p1 = triangles[nextHalfedge(nextHalfedge(halfedges[e]))];
+    if (!segmentsCross(points[u], points[v], points[p0], points[p1])) {
+      // Non-convex quad: retry once the neighbourhood has changed
+      crossing.push([u, v]);
+      continue;
+    }
+    flipEdge(mesh, e);
+    if (
+      p0 !== a &&
+      p0 !== b &&
+      p1 !== a &&
+      p1 !== b &&
+      segmentsCross(pa, pb, points[p0], points[p1])
+    ) {
+      crossing.push([p0, p1]);
+    } else {
+      created.push([p0, p1]);
+    }
+  }
+
+  const inserted = findEdge(mesh, a, b);
+  if (inserted === -1) {
+    return false;
+  }
+  markConstrained(mesh, inserted);
+
+  // Check every edge of the re-triangulated region, cavity boundary included
+  const region: EdgeIndex[] = [];
+  for (const [u, v] of [...created, [a, b] as EdgeIndex]) {
+    const e = findEdge(mesh, u, v);
+    if (e === -1) {
+      continue;
+    }
+    for (const h of [e, halfedges[e]]) {
+      if (h === -1) {
+        continue;
+      }
+      const first = h - (h % 3);
+      for (let k = first; k < first + 3; k += 1) {
+        region.push([triangles[k], triangles[nextHalfedge(k)]]);
+      }
+    }
+  }
+  legalizeEdges(mesh, region);
+  return true;
+};
+
+/**
+ * Computes the constrained Delaunay triangulation of a point set
+ * Time complexity: O(n log n) for the Delaunay triangulation, then
+ * O(k²) flips for a segment crossing k edges
+ * @param points - Point set
+ * @param segments - Constraint segments as point index pairs
+ * @returns Triangulation with constrained halfedges and rejected segments
+ */
+export const computeConstrainedDelaunay = (
+  points: Point[],
+  segments: EdgeIndex[]
+): ConstrainedTriangulation => {
+  const delaunay = Delaunay.from(points, (p) => p.x, (p) => p.y);
+  const mesh: Mesh = {
+    points,
+    triangles: Uint32Array.from(delaunay.triangles),
+    halfedges: Int32Array.from(delaunay.halfedges),
+    constrained: new Uint8Array(delaunay.triangles.length),
+    edgeIndex: new Map(),
+  };
+  for (let e = 0; e < mesh.triangles.length; e += 1) {
+    indexHalfedge(mesh, e);
+  }
+
+  const rejected = segments.filter(([a, b]) => !insertConstraint(mesh, a, b));
+
+  return {
+    triangles: mesh.triangles,
+    halfedges: mesh.halfedges,
+    constrained: mesh.constrained,
+    rejected,
+  };
+};
+
+/**
+ * Lists the triangles whose circumcircle contains another point
+ * In a CDT these are the triangles that lost the empty-circle property
+ * because a constraint blocks the visibility
+ * Time complexity: O(T·n)
+ * @param points - Point set
+ * @param triangulation - Constrained triangulation
+ * @returns Triangle indices
+ */
+export const findNonDelaunayTriangles = (
+  points: Point[],
+  triangulation: ConstrainedTriangulation
+): number[] => {
+  const { triangles } = triangulation;
+  const result: number[] = [];
+  for (let t = 0; t < triangles.length / 3; t += 1) {
+    const i0 = triangles[3 * t];
+    const i1 = triangles[3 * t + 1];
+    const i2 = triangles[3 * t + 2];
+    const a = points[i0];
+    const b = points[i1];
+    const c = points[i2];
+    const violated = points.some(
+      (point, index) =>
+        index !== i0 &&
+        index !== i1 &&
+        index !== i2 &&
+        isInCircumcircle(a, b, c, point)
+    );
+    if (violated) {
+      result.push(t);
+    }
+  }
+  return result;
+};
+
+/**
+ * Collects the undirected edges of a constrained triangulation
+ * @param triangulation - Constrained triangulation
+ * @returns Unconstrained edges and constrained edges
+ */
+export const collectTriangulationEdges = (
+  triangulation: ConstrainedTriangulation
+): { edges: EdgeIndex[]; constraintEdges: EdgeIndex[] } => {
+  const { triangles, halfedges, constrained } = triangulation;
+  const edges: EdgeIndex[] = [];
+  const constraintEdges: EdgeIndex[] = [];
+  for (let e = 0; e < triangles.length; e += 1) {
+    const twin = halfedges[e];
+    if (twin !== -1 && twin < e) {
+      continue;
+    }
+    const edge: EdgeIndex = [triangles[e], triangles[nextHalfedge(e)]];
+    (constrained[e] ? constraintEdges : edges).push(edge);
+  }
+  return { edges, constraintEdges };
+};
@@ -0,0 +1,123 @@
+/**
+ * @fileoverview Convex hull and convex layers (onion peeling)
+ * The convex layers are obtained by repeatedly removing the hull vertices
+ * and computing the hull of the remaining points
+ */
+
+import { Point } from "./types";
+
+/**
+ * Cross product of (b − a) × (c − a)
+ * Positive for a left turn in a y-up frame (counterclockwise)
+ */
+const cross = (a: Point, b: Point, c: Point): number =>
+  (b.x - a.x) * (c.y - a.y) - (b.y - a.y) * (c.x - a.x);
+
+/**
+ * Computes the convex hull of a subset of points (Andrew's monotone chain)
+ * Collinear boundary points are left out of the hull, so they belong to a
+ * deeper layer
+ * Time complexity: O(m log m)
+ * @param points - Point set
+ * @param indices - Indices of the subset
+ * @returns Hull vertex indices in counterclockwise order (y-up frame)
+ */
+export const computeConvexHull = (
+  points: Point[],
+  indices: number[]
+): number[] => {
+  const sorted = [...indices].sort(
+    (a, b) => points[a].x - points[b].x || points[a].y - points[b].y
+  );
+  if (sorted.length <= 2) {
+    return sorted;
+  }
+
+  const lower: number[] = [];
+  for (const index of sorted) {
+    while (
+      lower.length >= 2 &&
+      cross(
+        points[lower[lower.length - 2]],
+        points[lower[lower.length - 1]],
+        points[index]
+      ) <= 0
+    ) {
+      lower.pop();
+    }
+    lower.push(index);
+  }
+
+  const upper: number[] = [];
+  for (let i = sorted.length - 1; i >= 0; i -= 1) {
+    const index = sorted[i];
+    while (
+      upper.length >= 2 &&
+      cross(
+        points[upper[upper.length - 2]],
+        points[upper[upper.length - 1]],
+        points[index]
+      ) <= 0
+    ) {
+      upper.pop();
+    }
+    upper.push(index);
+  }
+
+  lower.pop();
+  upper.pop();
+  const hull = lower.concat(upper);
+
+  // All points collinear: keep the two extremities
+  return hull.length >= 2 ? hull : [sorted[0], sorted[sorted.length - 1]];
+};
+
+/**
+ * Peels the point set into convex layers
+ * Time complexity: O(n² log n) in the worst case (one point per layer)
+ * @param points - Point set
+ * @returns Layers from the outermost (convex hull) inwards, each as hull
+ * vertex indices
+ */
+export const computeConvexLayers = (points: Point[]): number[][] => {
+  const layers: number[][] = [];
+  let remaining = points.map((_, index) => index);
+
+  while (remaining.length) {
+    const layer = computeConvexHull(points, remaining);
+    layers.push(layer);
+    const peeled = new Set(layer);
+    remaining = remaining.filter((index) => !peeled.has(index));
+  }
+
+  return layers;
+};
+
+/**
+ * Serializes a convex layer as a GeoJSON feature
+ * The ring is closed and counterclockwise in the y-up frame (RFC 7946 order).
+ * Degenerate inner layers become a Point (one vertex) or a LineString (two
+ * vertices), since a Polygon ring needs at least four positions.
+ * @param points - Point set
+ * @param layer - Layer vertex indices
+ * @param depth - Layer depth (0 = convex hull)
+ * @returns GeoJSON Feature
+ */
+export const convexLayerToGeoJson = (
+  points: Point[],
+  layer: number[],
+  depth: number
+): object => {
+  const positions = layer.map((index) => [points[index].x, points[index].y]);
+  const geometry =
+    positions.length === 1
+      ? { type: "Point", coordinates: positions[0] }
+      : positions.length === 2
+        ? { type: "LineString", coordinates: positions }
+        : { type: "Polygon", coordinates: [[...positions, positions[0]]] };
+  return {
+    type: "Feature",
+    properties: { depth, vertices: layer.length },
+    geometry,
+  };
+};
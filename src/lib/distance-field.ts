@@ -0,0 +1,133 @@
+/**
+ * @fileoverview Distance field layer of the discrete Voronoi mode
+ * Turns the per-pixel nearest / second-nearest site distances of the
+ * brute-force rasterization into a heat map with optional isodistance lines
+ */
+
+import { DISTANCE_FIELD_COLOR_STOPS, ISOLINE_SPACING } from "./constants";
+import { DistanceField, DistanceFieldKind, RGBColor } from "./types";
+
+/**
+ * Builds the distance field from the raw site distance buffers
+ * @param kind - Field variant (F1 or F2 − F1)
+ * @param distances - Nearest and second-nearest site distance values
+ * @param toLength - Conversion from site distance value to length
+ * @param width - Canvas width
+ * @param height - Canvas height
+ * @returns Distance field with its largest finite value
+ */
+export const buildDistanceField = (
+  kind: Exclude<DistanceFieldKind, "none">,
+  distances: { first: Float32Array; second: Float32Array },
+  toLength: (value: number) => number,
+  width: number,
+  height: number
+): DistanceField => {
+  const values = new Float32Array(width * height);
+  let max = 0;
+
+  for (let index = 0; index < values.length; index++) {
+    const first = toLength(Math.max(0, distances.first[index]));
+    const value =
+      kind === "nearest"
+        ? first
+        : toLength(Math.max(0, distances.second[index])) - first;
+    values[index] = value;
+    if (Number.isFinite(value)) {
+      max = Math.max(max, value);
+    }
+  }
+
+  // A single site has no second-nearest distance: saturate the gap field
+  for (let index = 0; index < values.length; index++) {
+    if (!Number.isFinite(values[index])) {
+      values[index] = max;
+    }
+  }
+
+  return { kind, width, height, values, max };
+};
+
+/**
+ * Samples the distance colour map
+ * @param t - Normalized value in [0, 1]
+ * @returns Interpolated colour
+ */
+export const distanceFieldColor = (t: number): RGBColor => {
+  const stops = DISTANCE_FIELD_COLOR_STOPS;
+  const position = Math.min(1, Math.max(0, t)) * (stops.length - 1);
+  const index = Math.min(stops.length - 2, Math.floor(position));
+  const f = position - index;
+  const a = stops[index];
+  const b = stops[index + 1];
+  return {
+    r: Math.round(a.r + (b.r - a.r) * f),
+    g: Math.round(a.g + (b.g - a.g) * f),
+    b: Math.round(a.b + (b.b - a.b) * f),
+  };
+};
+
+/**
+ * Paints a distance field into image data
+ * Isolines are drawn where the band index floor(value / ISOLINE_SPACING)
+ * changes between a pixel and its right or bottom neighbour
+ * @param imageData - Target image data (same size as the field)
+ * @param field - Distance field
+ * @param showIsolines - Whether to draw isodistance lines
+ */
+export const paintDistanceField = (
+  imageData: ImageData,
+  field: DistanceField,
+  showIsolines: boolean
+): void => {
+  const { width, height, values, max } = field;
+  const data = imageData.data;
+  const palette = Array.from({ length: 256 }, (_, i) =>
+    distanceFieldColor(i / 255)
+  );
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const index = y * width + x;
+      const value = values[index];
+      let color = palette[max > 0 ? Math.round((value / max) * 255) : 0];
+
+      if (showIsolines) {
+        const band = Math.floor(value / ISOLINE_SPACING);
+        const right =
+          x + 1 < width ? Math.floor(values[index + 1] / ISOLINE_SPACING) : band;
+        const below =
+          y + 1 < height
+            ? Math.floor(values[index + width] / ISOLINE_SPACING)
+            : band;
+        if (band !== right || band !== below) {
+          color = { r: 255, g: 255, b: 255 };
+        }
+      }
+
+      const pixelIndex = index * 4;
+      data[pixelIndex] = color.r;
+      data[pixelIndex + 1] = color.g;
+      data[pixelIndex + 2] = color.b;
+      data[pixelIndex + 3] = 255;
+    }
+  }
+};
+
+/**
+ * Quantizes a distance field to 16-bit grayscale (0 = distance 0, 65535 = max)
+ * @param field - Distance field
+ * @returns Row-major 16-bit samples
+ */
+export const distanceFieldToGray16 = (field: DistanceField): Uint16Array => {
+  const samples = new Uint16Array(field.values.length);
+  if (field.max <= 0) {
+    return samples;
+  }
+  for (let index = 0; index < samples.length; index++) {
+    samples[index] = Math.round(
+      Math.min(1, Math.max(0, field.values[index] / field.max)) * 65535
+    );
+  }
+  return samples;
+};
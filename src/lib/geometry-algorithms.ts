@@ -3,31 +3,70 @@
  * Implements computational geometry algorithms:
  * - Delaunay triangulation edge collection
  * - Alpha shapes and alpha complexes
- * - Proximity graphs (Gabriel, RNG, NN-crust)
+ * - Proximity graphs (Gabriel, RNG, β-skeleton)
+ * - Curve reconstruction (NN-crust, crust)
  * - Minimum spanning tree
+ * - Farthest-point Voronoi diagram
  */
 
-import { Delaunay } from "d3-delaunay";
-import { EPSILON, INITIAL_SEEDS } from "./constants";
-import { Point, EdgeIndex, TriangleIndex, AlphaData, DerivedStructures } from "./types";
+import { Delaunay, Voronoi } from "d3-delaunay";
+import {
+  ADAPTIVE_ALPHA_NEIGHBOURS,
+  EPSILON,
+  INITIAL_SEEDS,
+  RASTER_MODES,
+} from "./constants";
+import {
+  Point,
+  EdgeIndex,
+  AlphaData,
+  AlphaFiltration,
+  DerivedStructures,
+  NNCrustData,
+  CrustData,
+  BetaSkeletonVariant,
+  ModeParameters,
+} from "./types";
 import type { GraphMode } from "./types";
 import {
   clamp,
   pseudoRandom,
   distance,
   distanceSquared,
-  circumradius,
   isPointInPolygon,
+  clipPolygonByHalfPlane,
+  nextHalfedge,
 } from "./math-utils";
-
-/**
- * Gets the next halfedge index in a triangle mesh
- * Used for traversing the halfedge data structure from d3-delaunay
- * @param index - Current halfedge index
- * @returns Next halfedge index
- */
-const nextHalfedge = (index: number): number =>
-  index % 3 === 2 ? index - 2 : index + 1;
+import { computePowerCells } from "./power-diagram";
+import {
+  computeJumpFloodLabels,
+  computeNearestSiteLabels,
+  countPixelsPerSite,
+  siteDistanceForMetric,
+  siteDistanceForMode,
+  siteDistanceToLength,
+} from "./raster-voronoi";
+import { buildDistanceField } from "./distance-field";
+import { computeOrderKRegions } from "./order-k-voronoi";
+import {
+  computeCircleAnalysis,
+  computeSmallestEnclosingCircle,
+} from "./circle-queries";
+import { computeMedialAxis } from "./medial-axis";
+import { computeConvexHull, computeConvexLayers } from "./convex-layers";
+import { computeAlphaFiltration } from "./alpha-filtration";
+import { computeAlphaShapeComponents } from "./alpha-polygons";
+import { computeChiShape, computeKnnConcaveHull } from "./concave-hull";
+import {
+  computeLocalScales,
+  normalizeFiltration,
+  simplexScale,
+} from "./adaptive-alpha";
+import {
+  collectTriangulationEdges,
+  computeConstrainedDelaunay,
+  findNonDelaunayTriangles,
+} from "./constrained-delaunay";
 
 /**
  * Creates a canonical edge key for deduplication
@@ -133,7 +172,7 @@ export const createInitialPoints = (width: number, height: number): Point[] =>
  * @param delaunay - D3-Delaunay triangulation object
  * @returns Array of unique edges as index pairs
  */
-export const collectDelaunayEdges = (delaunay: Delaunay<Point>): EdgeIndex[] => {
+export const collectDelaunayEdges = <P>(delaunay: Delaunay<P>): EdgeIndex[] => {
   const { triangles, halfedges } = delaunay;
   const seen = new Set<string>();
   const edges: EdgeIndex[] = [];
@@ -162,122 +201,250 @@ export const collectDelaunayEdges = (delaunay: Delaunay<Point>): EdgeIndex[] =>
 };
 
 /**
- * Computes alpha-shape and alpha-complex structures
- * Alpha-shape: only boundary edges (triangles with circumradius ≤ α)
- * Alpha-complex: all edges from triangles with circumradius ≤ α
+ * Computes the alpha complex and the alpha-shape boundary
+ * The complex is the sub-level set of the alpha filtration: every Delaunay
+ * simplex entering at a radius ≤ α, including edges whose smallest empty
+ * circle fits (even without a triangle) and isolated vertices.
+ * Alpha-shape: edges in exactly one complex triangle, plus dangling edges
  * @param points - Point set
  * @param delaunay - Delaunay triangulation
  * @param alpha - Alpha radius threshold
- * @returns Alpha data with triangles and edges
+ * @param filtration - Filtration to cut (defaults to the alpha filtration)
+ * @returns Alpha data with simplices, filtration values and boundary
  */
 export const computeAlphaData = (
   points: Point[],
   delaunay: Delaunay<Point>,
-  alpha: number
+  alpha: number,
+  filtration: AlphaFiltration = computeAlphaFiltration(points, delaunay)
 ): AlphaData => {
-  const triangles = delaunay.triangles;
-  const alphaTriangles: TriangleIndex[] = [];
-  const edgeCount = new Map<string, number>();
-
-  // Collect triangles within alpha threshold
-  for (let index = 0; index < triangles.length; index += 3) {
-    const i0 = triangles[index];
-    const i1 = triangles[index + 1];
-    const i2 = triangles[index + 2];
-
-    if (
-      i0 === undefined ||
-      i1 === undefined ||
-      i2 === undefined ||
-      i0 === i1 ||
-      i1 === i2 ||
-      i2 === i0
-    ) {
-      continue;
-    }
+  const data: AlphaData = {
+    triangles: [],
+    triangleValues: [],
+    allEdges: [],
+    edgeValues: [],
+    boundaryEdges: [],
+    danglingEdges: [],
+    isolatedVertices: [],
+  };
 
-    const p0 = points[i0];
-    const p1 = points[i1];
-    const p2 = points[i2];
+  for (const { triangle, value } of filtration.triangles) {
+    if (value <= alpha) {
+      data.triangles.push(triangle);
+      data.triangleValues.push(value);
+    }
+  }
 
-    const radius = circumradius(p0.x, p0.y, p1.x, p1.y, p2.x, p2.y);
-    if (!Number.isFinite(radius) || radius > alpha) {
+  const hasEdge = new Uint8Array(points.length);
+  for (const { edge, value, faces } of filtration.edges) {
+    if (value > alpha) {
       continue;
     }
+    data.allEdges.push(edge);
+    data.edgeValues.push(value);
+    hasEdge[edge[0]] = 1;
+    hasEdge[edge[1]] = 1;
+
+    // A triangle always enters after its edges, so counting is enough
+    const cofaces = faces.filter(
+      (face) => face !== -1 && filtration.triangles[face].value <= alpha
+    ).length;
+    if (cofaces === 1) {
+      data.boundaryEdges.push(edge);
+    } else if (cofaces === 0) {
+      data.danglingEdges.push(edge);
+    }
+  }
 
-    alphaTriangles.push([i0, i1, i2]);
+  points.forEach((_, index) => {
+    if (!hasEdge[index]) {
+      data.isolatedVertices.push(index);
+    }
+  });
 
-    // Count edge occurrences in alpha triangles
-    const e1 = edgeKey(i0, i1);
-    const e2 = edgeKey(i1, i2);
-    const e3 = edgeKey(i2, i0);
-    edgeCount.set(e1, (edgeCount.get(e1) ?? 0) + 1);
-    edgeCount.set(e2, (edgeCount.get(e2) ?? 0) + 1);
-    edgeCount.set(e3, (edgeCount.get(e3) ?? 0) + 1);
-  }
+  return data;
+};
 
-  // All edges in the alpha-complex
-  const allEdges = Array.from(edgeCount.keys(), decodeEdgeKey);
+/**
+ * Builds the Delaunay adjacency list of every point
+ * The nearest neighbour and every point able to invalidate a Gabriel or RNG
+ * edge are Delaunay neighbours, so proximity tests only need these lists
+ * @param delaunay - Delaunay triangulation
+ * @param count - Number of points
+ * @returns Neighbour indices for each point
+ */
+const collectNeighborLists = (
+  delaunay: Delaunay<Point>,
+  count: number
+): number[][] => {
+  const neighbors: number[][] = [];
+  for (let i = 0; i < count; i += 1) {
+    neighbors.push(Array.from(delaunay.neighbors(i)));
+  }
+  return neighbors;
+};
 
-  // Boundary edges (alpha-shape): edges in exactly one triangle
-  const boundaryEdges = Array.from(edgeCount.entries())
-    .filter(([, count]) => count === 1)
-    .map(([key]) => decodeEdgeKey(key));
+/**
+ * Creates a disjoint-set (union-find) structure over point indices
+ * Uses path halving and union by size
+ * @param count - Number of elements
+ * @returns find/union operations on the sets
+ */
+const createUnionFind = (count: number) => {
+  const parent = Array.from({ length: count }, (_, index) => index);
+  const size = new Array<number>(count).fill(1);
+
+  const find = (index: number): number => {
+    let current = index;
+    while (parent[current] !== current) {
+      parent[current] = parent[parent[current]];
+      current = parent[current];
+    }
+    return current;
+  };
 
-  return {
-    triangles: alphaTriangles,
-    allEdges,
-    boundaryEdges,
+  const union = (a: number, b: number): boolean => {
+    let rootA = find(a);
+    let rootB = find(b);
+    if (rootA === rootB) {
+      return false;
+    }
+    if (size[rootA] < size[rootB]) {
+      [rootA, rootB] = [rootB, rootA];
+    }
+    parent[rootB] = rootA;
+    size[rootA] += size[rootB];
+    return true;
   };
+
+  return { find, union };
 };
 
 /**
- * Computes nearest neighbor edges from each point to its closest neighbor
- * Used for NN-crust visualization
+ * Computes the NN-crust curve reconstruction (Dey & Kumar)
+ * For each point p with nearest neighbor q, keeps the edge pq and the
+ * shortest edge pr such that the angle qpr is at least 90° (half-neighbor).
+ * Both neighbors are Delaunay neighbors, so only adjacent vertices are scanned.
+ * For a well-sampled curve the result is a set of closed polylines.
  * @param points - Point set
- * @returns Array of nearest neighbor edges
+ * @param delaunay - Delaunay triangulation
+ * @returns First-neighbor and half-neighbor edges
  */
-export const computeNearestNeighborEdges = (points: Point[]): EdgeIndex[] => {
+export const computeNNCrust = (
+  points: Point[],
+  delaunay: Delaunay<Point>
+): NNCrustData => {
+  const firstNeighbor = new Set<string>();
+  const halfNeighbor = new Set<string>();
+
   if (points.length < 2) {
-    return [];
+    return { firstNeighborEdges: [], halfNeighborEdges: [] };
   }
-  const edges = new Set<string>();
 
   for (let i = 0; i < points.length; i += 1) {
+    const p = points[i];
+    const neighbors = Array.from(delaunay.neighbors(i)).filter((j) => j !== i);
+
     let nearestIndex = -1;
     let nearestDistance = Number.POSITIVE_INFINITY;
-
-    for (let j = 0; j < points.length; j += 1) {
-      if (i === j) {
-        continue;
-      }
-      const d = distanceSquared(points[i], points[j]);
+    for (const j of neighbors) {
+      const d = distanceSquared(p, points[j]);
       if (d < nearestDistance) {
         nearestDistance = d;
         nearestIndex = j;
       }
     }
+    if (nearestIndex < 0) {
+      continue;
+    }
+    firstNeighbor.add(edgeKey(i, nearestIndex));
+
+    // Half-neighbor: shortest edge on the opposite side of the nearest neighbor
+    const qx = points[nearestIndex].x - p.x;
+    const qy = points[nearestIndex].y - p.y;
+    let halfIndex = -1;
+    let halfDistance = Number.POSITIVE_INFINITY;
+    for (const j of neighbors) {
+      const rx = points[j].x - p.x;
+      const ry = points[j].y - p.y;
+      if (qx * rx + qy * ry > 0) {
+        continue;
+      }
+      const d = rx * rx + ry * ry;
+      if (d < halfDistance) {
+        halfDistance = d;
+        halfIndex = j;
+      }
+    }
+    if (halfIndex >= 0) {
+      halfNeighbor.add(edgeKey(i, halfIndex));
+    }
+  }
+
+  // An edge that is a first neighbor for either endpoint is reported as such
+  for (const key of firstNeighbor) {
+    halfNeighbor.delete(key);
+  }
 
-    if (nearestIndex >= 0) {
-      edges.add(edgeKey(i, nearestIndex));
+  return {
+    firstNeighborEdges: Array.from(firstNeighbor, decodeEdgeKey),
+    halfNeighborEdges: Array.from(halfNeighbor, decodeEdgeKey),
+  };
+};
+
+/**
+ * Computes the crust curve reconstruction (Amenta, Bern & Eppstein)
+ * Adds the Voronoi vertices to the samples, re-triangulates, and keeps the
+ * Delaunay edges whose endpoints are both original samples
+ * @param points - Point set
+ * @param voronoi - Voronoi diagram of the point set
+ * @returns Crust edges and the inserted Voronoi vertices
+ */
+export const computeCrust = (
+  points: Point[],
+  voronoi: Voronoi<Point>
+): CrustData => {
+  const { circumcenters } = voronoi;
+  const voronoiVertices: Array<[number, number]> = [];
+  for (let index = 0; index < circumcenters.length; index += 2) {
+    const x = circumcenters[index];
+    const y = circumcenters[index + 1];
+    if (Number.isFinite(x) && Number.isFinite(y)) {
+      voronoiVertices.push([x, y]);
     }
   }
 
-  return Array.from(edges, decodeEdgeKey);
+  const coordinates: Array<[number, number]> = [
+    ...points.map((point) => [point.x, point.y] as [number, number]),
+    ...voronoiVertices,
+  ];
+  const augmented = Delaunay.from(coordinates);
+  const sampleCount = points.length;
+
+  const edges = collectDelaunayEdges(augmented).filter(
+    ([a, b]) => a < sampleCount && b < sampleCount
+  );
+
+  return { edges, voronoiVertices };
 };
 
 /**
  * Filters edges to keep only Gabriel graph edges
  * Gabriel graph: edge is included if no other point lies inside the
  * circle with the edge as diameter (circumcircle with edge as diameter)
+ * For a Delaunay edge, a point inside that circle is necessarily a Delaunay
+ * neighbor of one of the endpoints, so only those are tested
  * @param points - Point set
- * @param candidateEdges - Edges to filter
+ * @param delaunay - Delaunay triangulation
+ * @param candidateEdges - Delaunay edges to filter
  * @returns Gabriel graph edges
  */
 export const computeGabrielEdges = (
   points: Point[],
+  delaunay: Delaunay<Point>,
   candidateEdges: EdgeIndex[]
 ): EdgeIndex[] => {
+  const neighbors = collectNeighborLists(delaunay, points.length);
   const result: EdgeIndex[] = [];
 
   for (const [aIndex, bIndex] of candidateEdges) {
@@ -286,23 +453,17 @@ export const computeGabrielEdges = (
     const midX = (a.x + b.x) / 2;
     const midY = (a.y + b.y) / 2;
     const radiusSquared = distanceSquared(a, b) / 4;
-    let isGabriel = true;
 
-    for (let k = 0; k < points.length; k += 1) {
+    const isInside = (k: number): boolean => {
       if (k === aIndex || k === bIndex) {
-        continue;
-      }
-      const pk = points[k];
-      const dx = pk.x - midX;
-      const dy = pk.y - midY;
-      const inside = dx * dx + dy * dy < radiusSquared - EPSILON;
-      if (inside) {
-        isGabriel = false;
-        break;
+        return false;
       }
-    }
+      const dx = points[k].x - midX;
+      const dy = points[k].y - midY;
+      return dx * dx + dy * dy < radiusSquared - EPSILON;
+    };
 
-    if (isGabriel) {
+    if (!neighbors[aIndex].some(isInside) && !neighbors[bIndex].some(isInside)) {
       result.push([aIndex, bIndex]);
     }
   }
@@ -314,102 +475,222 @@ export const computeGabrielEdges = (
  * Filters edges to keep only relative neighborhood graph edges
  * RNG: edge is included if no other point is closer to both endpoints
  * than the endpoints are to each other
+ * The lune lies in the disk of radius |ab| around a, and the points of that
+ * disk form a connected Delaunay subgraph around a (greedy routing property),
+ * so the search walks outward from a instead of scanning every point
  * @param points - Point set
- * @param candidateEdges - Edges to filter
+ * @param delaunay - Delaunay triangulation
+ * @param candidateEdges - Delaunay edges to filter
  * @returns Relative neighborhood graph edges
  */
 export const computeRelativeNeighborhoodEdges = (
   points: Point[],
+  delaunay: Delaunay<Point>,
   candidateEdges: EdgeIndex[]
 ): EdgeIndex[] => {
+  const neighbors = collectNeighborLists(delaunay, points.length);
+  const visitedStamp = new Array<number>(points.length).fill(-1);
   const result: EdgeIndex[] = [];
 
-  for (const [aIndex, bIndex] of candidateEdges) {
-    const ab = distance(points[aIndex], points[bIndex]);
+  // RNG ⊆ Gabriel graph, which discards most long edges before the walk
+  const gabrielEdges = computeGabrielEdges(points, delaunay, candidateEdges);
+
+  gabrielEdges.forEach(([aIndex, bIndex], edgeIndex) => {
+    const a = points[aIndex];
+    const b = points[bIndex];
+    const ab = distance(a, b);
+    const stack = [aIndex];
+    visitedStamp[aIndex] = edgeIndex;
     let isRelativeNeighbor = true;
 
-    for (let k = 0; k < points.length; k += 1) {
-      if (k === aIndex || k === bIndex) {
-        continue;
-      }
-      const ak = distance(points[aIndex], points[k]);
-      const bk = distance(points[bIndex], points[k]);
-      if (Math.max(ak, bk) < ab - EPSILON) {
-        isRelativeNeighbor = false;
-        break;
+    while (stack.length && isRelativeNeighbor) {
+      const current = stack.pop() as number;
+      for (const k of neighbors[current]) {
+        if (visitedStamp[k] === edgeIndex || k === bIndex) {
+          continue;
+        }
+        visitedStamp[k] = edgeIndex;
+        const ak = distance(a, points[k]);
+        if (ak >= ab) {
+          continue;
+        }
+        if (distance(b, points[k]) < ab - EPSILON && ak < ab - EPSILON) {
+          isRelativeNeighbor = false;
+          break;
+        }
+        stack.push(k);
       }
     }
 
     if (isRelativeNeighbor) {
       result.push([aIndex, bIndex]);
     }
-  }
+  });
 
   return result;
 };
 
 /**
- * Computes minimum spanning tree using Prim's algorithm
- * Finds the tree of minimum total edge length connecting all points
- * Time complexity: O(n²)
- * @param points - Point set
- * @returns MST edges
+ * Tests whether a point lies in the forbidden region of a β-skeleton edge
+ * - β ≤ 1 (both variants): angle prq > π − arcsin(β)
+ * - β ≥ 1, circle-based: angle prq > arcsin(1/β)
+ * - β ≥ 1, lune-based: inside both disks of radius β|pq|/2 centred at
+ *   (1 − β/2)p + (β/2)q and (β/2)p + (1 − β/2)q, a slab when β = ∞
+ * @param p - First endpoint
+ * @param q - Second endpoint
+ * @param r - Tested point
+ * @param beta - β value in [0, ∞]
+ * @param variant - Forbidden-region definition
+ * @returns True if r forbids the edge pq
  */
-export const computeMinimumSpanningTreeEdges = (points: Point[]): EdgeIndex[] => {
-  const count = points.length;
-  if (count < 2) {
-    return [];
+const isInBetaRegion = (
+  p: Point,
+  q: Point,
+  r: Point,
+  beta: number,
+  variant: BetaSkeletonVariant
+): boolean => {
+  if (beta >= 1 && variant === "lune") {
+    const pqX = q.x - p.x;
+    const pqY = q.y - p.y;
+    const lengthSquared = pqX * pqX + pqY * pqY;
+    if (!Number.isFinite(beta)) {
+      const projection = ((r.x - p.x) * pqX + (r.y - p.y) * pqY) / lengthSquared;
+      return projection > EPSILON && projection < 1 - EPSILON;
+    }
+    const radius = (beta * Math.sqrt(lengthSquared)) / 2;
+    const c1 = { id: -1, x: p.x + (beta / 2) * pqX, y: p.y + (beta / 2) * pqY };
+    const c2 = { id: -1, x: q.x - (beta / 2) * pqX, y: q.y - (beta / 2) * pqY };
+    return (
+      distance(r, c1) < radius - EPSILON && distance(r, c2) < radius - EPSILON
+    );
   }
 
-  const visited = new Array<boolean>(count).fill(false);
-  const distances = new Array<number>(count).fill(Number.POSITIVE_INFINITY);
-  const parent = new Array<number>(count).fill(-1);
-
-  visited[0] = true;
-  for (let i = 1; i < count; i += 1) {
-    distances[i] = distance(points[0], points[i]);
-    parent[i] = 0;
+  // Angle-based definition (circle variant, and lune variant for β ≤ 1)
+  const ux = p.x - r.x;
+  const uy = p.y - r.y;
+  const vx = q.x - r.x;
+  const vy = q.y - r.y;
+  const norms = Math.hypot(ux, uy) * Math.hypot(vx, vy);
+  if (norms === 0) {
+    return false;
   }
+  const cosAngle = (ux * vx + uy * vy) / norms;
+  const theta =
+    beta >= 1 ? Math.asin(1 / beta) : Math.PI - Math.asin(Math.max(0, beta));
+  return cosAngle < Math.cos(theta) - EPSILON;
+};
 
-  const edges: EdgeIndex[] = [];
-
-  for (let iteration = 1; iteration < count; iteration += 1) {
-    let bestIndex = -1;
-    let bestDistance = Number.POSITIVE_INFINITY;
-
-    // Find nearest unvisited point
-    for (let j = 0; j < count; j += 1) {
-      if (visited[j]) {
-        continue;
-      }
-      if (distances[j] < bestDistance) {
-        bestDistance = distances[j];
-        bestIndex = j;
+/**
+ * Computes the β-skeleton of a point set
+ * For β ≥ 1 the skeleton is a subgraph of the Gabriel graph, hence of the
+ * Delaunay triangulation, so Gabriel edges are the only candidates. Their
+ * forbidden region lies in the disk of radius √β·|ab| (lune) or β·|ab|
+ * (circles) around a, whose points form a connected Delaunay subgraph
+ * around a, so the search walks outward from a as for the RNG.
+ * Below 1 it may contain non-Delaunay edges and every pair is tested.
+ * At β = 1 (lune) this is the Gabriel graph, at β = 2 (lune) the RNG.
+ * @param points - Point set
+ * @param delaunay - Delaunay triangulation
+ * @param candidateEdges - Delaunay edges
+ * @param beta - β value in [0, ∞]
+ * @param variant - Forbidden-region definition
+ * @returns β-skeleton edges
+ */
+export const computeBetaSkeletonEdges = (
+  points: Point[],
+  delaunay: Delaunay<Point>,
+  candidateEdges: EdgeIndex[],
+  beta: number,
+  variant: BetaSkeletonVariant
+): EdgeIndex[] => {
+  if (beta < 1) {
+    const result: EdgeIndex[] = [];
+    for (let i = 0; i < points.length; i += 1) {
+      for (let j = i + 1; j < points.length; j += 1) {
+        if (distanceSquared(points[i], points[j]) === 0) {
+          continue;
+        }
+        const isForbidden = points.some(
+          (point, k) =>
+            k !== i &&
+            k !== j &&
+            isInBetaRegion(points[i], points[j], point, beta, variant)
+        );
+        if (!isForbidden) {
+          result.push([i, j]);
+        }
       }
     }
+    return result;
+  }
 
-    if (bestIndex === -1) {
-      break;
+  const neighbors = collectNeighborLists(delaunay, points.length);
+  const visitedStamp = new Array<number>(points.length).fill(-1);
+  const reach = variant === "lune" ? Math.sqrt(beta) : beta;
+
+  return computeGabrielEdges(points, delaunay, candidateEdges).filter(
+    ([aIndex, bIndex], edgeIndex) => {
+      const a = points[aIndex];
+      const b = points[bIndex];
+      const radius = reach * distance(a, b);
+      const stack = [aIndex];
+      visitedStamp[aIndex] = edgeIndex;
+
+      while (stack.length) {
+        const current = stack.pop() as number;
+        for (const k of neighbors[current]) {
+          if (visitedStamp[k] === edgeIndex || k === bIndex) {
+            continue;
+          }
+          visitedStamp[k] = edgeIndex;
+          if (distance(a, points[k]) > radius) {
+            continue;
+          }
+          if (isInBetaRegion(a, b, points[k], beta, variant)) {
+            return false;
+          }
+          stack.push(k);
+        }
+      }
+      return true;
     }
+  );
+};
 
-    visited[bestIndex] = true;
-    const parentIndex = parent[bestIndex];
-    if (parentIndex >= 0) {
-      edges.push([
-        Math.min(bestIndex, parentIndex),
-        Math.max(bestIndex, parentIndex),
-      ]);
-    }
+/**
+ * Computes minimum spanning tree using Kruskal's algorithm
+ * The Euclidean MST is a subgraph of the Delaunay triangulation, so only
+ * Delaunay edges are sorted and merged with a union-find structure
+ * Time complexity: O(n log n)
+ * @param points - Point set
+ * @param candidateEdges - Delaunay edges
+ * @returns MST edges
+ */
+export const computeMinimumSpanningTreeEdges = (
+  points: Point[],
+  candidateEdges: EdgeIndex[]
+): EdgeIndex[] => {
+  const count = points.length;
+  if (count < 2) {
+    return [];
+  }
 
-    // Update distances to remaining unvisited points
-    for (let j = 0; j < count; j += 1) {
-      if (visited[j]) {
-        continue;
-      }
-      const d = distance(points[bestIndex], points[j]);
-      if (d < distances[j]) {
-        distances[j] = d;
-        parent[j] = bestIndex;
+  const sortedEdges = candidateEdges
+    .map((edge) => ({
+      edge,
+      length: distanceSquared(points[edge[0]], points[edge[1]]),
+    }))
+    .sort((a, b) => a.length - b.length);
+
+  const sets = createUnionFind(count);
+  const edges: EdgeIndex[] = [];
+
+  for (const { edge } of sortedEdges) {
+    if (sets.union(edge[0], edge[1])) {
+      edges.push(edge);
+      if (edges.length === count - 1) {
+        break;
       }
     }
   }
@@ -418,63 +699,70 @@ export const computeMinimumSpanningTreeEdges = (points: Point[]): EdgeIndex[] =>
 };
 
 /**
- * Computes discrete Voronoi diagram using brute force algorithm
- * For each pixel, finds the closest seed point
- * @param points - Point set (seeds)
+ * Computes farthest-point Voronoi cells clipped to the canvas
+ * Only convex hull vertices have non-empty cells. The cell of hull vertex h
+ * is ⋂ {x : |x − u| ≤ |x − h|} over the other hull vertices u, i.e. the
+ * half-planes 2x·(h − u) ≤ |h|² − |u|².
+ * @param points - Point set
+ * @param hullIndices - Convex hull vertex indices
  * @param width - Canvas width
  * @param height - Canvas height
- * @returns Voronoi cells represented as pixel groups
+ * @returns One polygon per point (empty for interior points)
  */
-const computeVoronoiBruteForce = (
+export const computeFarthestPointCells = (
   points: Point[],
+  hullIndices: number[],
   width: number,
   height: number
 ): Array<Array<[number, number]>> => {
-  // Initialize cells for each point
   const cells: Array<Array<[number, number]>> = points.map(() => []);
+  if (hullIndices.length < 2) {
+    return cells;
+  }
 
-  // For each pixel in the canvas
-  for (let y = 0; y < height; y++) {
-    for (let x = 0; x < width; x++) {
-      let closestIndex = 0;
-      let closestDistance = Number.MAX_VALUE;
-
-      // Find the closest seed point (brute force)
-      for (let i = 0; i < points.length; i++) {
-        const dx = x - points[i].x;
-        const dy = y - points[i].y;
-        const distSquared = dx * dx + dy * dy;
-
-        if (distSquared < closestDistance) {
-          closestDistance = distSquared;
-          closestIndex = i;
-        }
+  for (const h of hullIndices) {
+    const site = points[h];
+    let cell: Array<[number, number]> = [
+      [0, 0],
+      [width, 0],
+      [width, height],
+      [0, height],
+    ];
+    for (const u of hullIndices) {
+      if (u === h || cell.length < 3) {
+        continue;
       }
-
-      // Add pixel to the closest seed's cell
-      cells[closestIndex].push([x, y]);
+      const other = points[u];
+      cell = clipPolygonByHalfPlane(
+        cell,
+        2 * (site.x - other.x),
+        2 * (site.y - other.y),
+        site.x * site.x + site.y * site.y - other.x * other.x - other.y * other.y
+      );
     }
+    cells[h] = cell.length >= 3 ? cell : [];
   }
 
   return cells;
 };
 
 /**
- * Computes all geometric structures needed for rendering based on visualization mode
- * This is the main entry point for computing derived data
+ * Computes the structures specific to a visualization mode
  * @param points - Point set
  * @param width - Canvas width
  * @param height - Canvas height
- * @param alpha - Alpha radius (only used in alpha modes)
+ * @param alpha - Alpha radius (alpha modes and alpha-bounded mesh)
  * @param mode - Visualization mode
- * @returns Computed geometric structures ready for rendering
+ * @param parameters - Mode-specific parameters (β-skeleton, order k, ...)
+ * @returns Mode structures
  */
-export const computeDerivedStructures = (
+const computeModeStructures = (
   points: Point[],
   width: number,
   height: number,
   alpha: number,
-  mode: GraphMode
+  mode: GraphMode,
+  parameters: ModeParameters
 ): DerivedStructures => {
   if (points.length === 0) {
     return {
@@ -484,16 +772,137 @@ export const computeDerivedStructures = (
     };
   }
 
-  // Brute force Voronoi mode (discrete)
-  if (mode === "voronoi-bruteforce") {
-    const cells = computeVoronoiBruteForce(points, width, height);
+  // Distance layer: the exact brute-force pass also records F1 and F2, so the
+  // raster backend is ignored (the controls disable jump flooding meanwhile)
+  if (mode === "voronoi-bruteforce" && parameters.distanceField !== "none") {
+    const distances = {
+      first: new Float32Array(width * height),
+      second: new Float32Array(width * height),
+    };
+    const rasterLabels = computeNearestSiteLabels(
+      points,
+      width,
+      height,
+      siteDistanceForMetric(parameters.metric),
+      distances
+    );
+    return {
+      voronoiCells: [],
+      graphEdges: [],
+      alphaTriangles: [],
+      rasterLabels,
+      rasterCellSizes: countPixelsPerSite(rasterLabels, points.length),
+      distanceField: buildDistanceField(
+        parameters.distanceField,
+        distances,
+        siteDistanceToLength(parameters.metric),
+        width,
+        height
+      ),
+    };
+  }
+
+  // Discrete Voronoi modes (brute force, weighted), exact or jump flooding
+  if (RASTER_MODES.includes(mode)) {
+    const computeLabels =
+      parameters.rasterBackend === "jfa"
+        ? computeJumpFloodLabels
+        : computeNearestSiteLabels;
+    const rasterLabels = computeLabels(
+      points,
+      width,
+      height,
+      siteDistanceForMode(mode, parameters.metric)
+    );
+    return {
+      voronoiCells: [],
+      graphEdges: [],
+      alphaTriangles: [],
+      rasterLabels,
+      rasterCellSizes: countPixelsPerSite(rasterLabels, points.length),
+    };
+  }
+
+  // Power diagram: weighted cells by half-plane clipping
+  if (mode === "power") {
+    return {
+      voronoiCells: computePowerCells(points, width, height),
+      graphEdges: [],
+      alphaTriangles: [],
+    };
+  }
+
+  // Convex layers by repeated hulls (the outermost layer is the hull)
+  if (mode === "hull") {
+    const convexLayers = computeConvexLayers(points);
+    return {
+      voronoiCells: [],
+      graphEdges: [],
+      alphaTriangles: [],
+      hullIndices: convexLayers[0],
+      convexLayers,
+    };
+  }
+
+  // Stipple mode draws its own dots, the interactive sites are unused
+  if (mode === "stipple") {
     return {
-      voronoiCells: cells,
+      voronoiCells: [],
       graphEdges: [],
       alphaTriangles: [],
     };
   }
 
+  // Constrained Delaunay triangulation of the user segments
+  if (mode === "cdt") {
+    const indexById = new Map(points.map((point, index) => [point.id, index]));
+    const segments: EdgeIndex[] = [];
+    for (const [fromId, toId] of parameters.constraints) {
+      const a = indexById.get(fromId);
+      const b = indexById.get(toId);
+      if (a !== undefined && b !== undefined) {
+        segments.push([a, b]);
+      }
+    }
+    const triangulation = computeConstrainedDelaunay(points, segments);
+    const { edges, constraintEdges } =
+      collectTriangulationEdges(triangulation);
+    return {
+      voronoiCells: [],
+      graphEdges: edges,
+      alphaTriangles: [],
+      triangulation,
+      constraintEdges,
+      nonDelaunayTriangles: findNonDelaunayTriangles(points, triangulation),
+    };
+  }
+
+  // Refinement mesh domain: boundary segments only, the mesh itself is
+  // refined step by step by the UI
+  if (mode === "mesh") {
+    let boundary: EdgeIndex[] = [];
+    if (parameters.meshBoundary === "hull") {
+      const hull = computeConvexHull(
+        points,
+        points.map((_, index) => index)
+      );
+      if (hull.length >= 3) {
+        boundary = hull.map((index, order) => [
+          index,
+          hull[(order + 1) % hull.length],
+        ]);
+      }
+    } else if (points.length >= 3) {
+      const delaunay = Delaunay.from(points, (p) => p.x, (p) => p.y);
+      boundary = computeAlphaData(points, delaunay, alpha).boundaryEdges;
+    }
+    return {
+      voronoiCells: [],
+      graphEdges: boundary,
+      alphaTriangles: [],
+    };
+  }
+
   // Compute Delaunay triangulation and Voronoi diagram
   const delaunay = Delaunay.from(points, (p) => p.x, (p) => p.y);
   const voronoi = delaunay.voronoi([0, 0, width, height]);
@@ -502,6 +911,23 @@ export const computeDerivedStructures = (
     return polygonWithoutDuplicate(polygon as Array<[number, number]>);
   });
 
+  // Farthest-point diagram: cells of the hull vertices from the d3 hull
+  if (mode === "farthest") {
+    const hullIndices = Array.from(delaunay.hull);
+    return {
+      voronoiCells: computeFarthestPointCells(
+        points,
+        hullIndices,
+        width,
+        height
+      ),
+      graphEdges: [],
+      alphaTriangles: [],
+      hullIndices,
+      enclosingCircle: computeSmallestEnclosingCircle(points),
+    };
+  }
+
   // Voronoi mode only needs cells
   if (mode === "voronoi") {
     return {
@@ -511,6 +937,21 @@ export const computeDerivedStructures = (
     };
   }
 
+  if (mode === "order-k") {
+    return {
+      voronoiCells,
+      graphEdges: [],
+      alphaTriangles: [],
+      orderKRegions: computeOrderKRegions(
+        points,
+        delaunay,
+        parameters.orderK,
+        width,
+        height
+      ),
+    };
+  }
+
   // Get candidate edges from Delaunay triangulation
   const candidateEdges = collectDelaunayEdges(delaunay);
 
@@ -520,15 +961,110 @@ export const computeDerivedStructures = (
     return {
       voronoiCells,
       graphEdges:
-        mode === "alpha-shape" ? alphaData.boundaryEdges : alphaData.allEdges,
+        mode === "alpha-shape"
+          ? [...alphaData.boundaryEdges, ...alphaData.danglingEdges]
+          : alphaData.allEdges,
       alphaTriangles: mode === "alpha-complex" ? alphaData.triangles : [],
+      isolatedVertices: alphaData.isolatedVertices,
+      alphaComplex: alphaData,
+      alphaComponents: computeAlphaShapeComponents(
+        points,
+        delaunay,
+        alphaData
+      ),
+      medialAxis:
+        parameters.medialAxisLambda === null
+          ? undefined
+          : computeMedialAxis(
+              points,
+              delaunay,
+              alphaData,
+              parameters.medialAxisLambda
+            ),
+    };
+  }
+
+  // Conformal alpha complex: the slider multiplies the local feature sizes
+  if (mode === "alpha-adaptive") {
+    const filtration = computeAlphaFiltration(points, delaunay);
+    const scales = computeLocalScales(
+      points,
+      delaunay,
+      parameters.localScale,
+      ADAPTIVE_ALPHA_NEIGHBOURS
+    );
+    const alphaData = computeAlphaData(
+      points,
+      delaunay,
+      parameters.alphaMultiplier,
+      normalizeFiltration(filtration, scales)
+    );
+    return {
+      voronoiCells,
+      graphEdges: [...alphaData.boundaryEdges, ...alphaData.danglingEdges],
+      alphaTriangles: alphaData.triangles,
+      isolatedVertices: alphaData.isolatedVertices,
+      adaptiveTriangles: filtration.triangles.map(({ triangle, value }) => ({
+        triangle,
+        circumradius: value,
+        alpha: parameters.alphaMultiplier * simplexScale(scales, triangle),
+      })),
+    };
+  }
+
+  // Concave hull: always one simple polygon, drawn as its boundary edges
+  if (mode === "concave-hull") {
+    const concaveHull =
+      parameters.concaveAlgorithm === "chi"
+        ? computeChiShape(
+            points,
+            delaunay,
+            candidateEdges,
+            parameters.chiLambda
+          )
+        : computeKnnConcaveHull(points, candidateEdges, parameters.concaveK);
+    const { ring } = concaveHull;
+    return {
+      voronoiCells,
+      graphEdges: ring.map((index, order) => [
+        index,
+        ring[(order + 1) % ring.length],
+      ]),
+      alphaTriangles: [],
+      concaveHull,
     };
   }
 
   if (mode === "nn-crust") {
+    const nnCrust = computeNNCrust(points, delaunay);
+    return {
+      voronoiCells,
+      graphEdges: [...nnCrust.firstNeighborEdges, ...nnCrust.halfNeighborEdges],
+      alphaTriangles: [],
+      nnCrust,
+    };
+  }
+
+  if (mode === "crust") {
+    const crust = computeCrust(points, voronoi);
     return {
       voronoiCells,
-      graphEdges: computeNearestNeighborEdges(points),
+      graphEdges: crust.edges,
+      alphaTriangles: [],
+      voronoiVertices: crust.voronoiVertices,
+    };
+  }
+
+  if (mode === "beta-skeleton") {
+    return {
+      voronoiCells,
+      graphEdges: computeBetaSkeletonEdges(
+        points,
+        delaunay,
+        candidateEdges,
+        parameters.beta,
+        parameters.betaVariant
+      ),
       alphaTriangles: [],
     };
   }
@@ -536,7 +1072,7 @@ export const computeDerivedStructures = (
   if (mode === "gabriel") {
     return {
       voronoiCells,
-      graphEdges: computeGabrielEdges(points, candidateEdges),
+      graphEdges: computeGabrielEdges(points, delaunay, candidateEdges),
       alphaTriangles: [],
     };
   }
@@ -544,7 +1080,11 @@ export const computeDerivedStructures = (
   if (mode === "rng") {
     return {
       voronoiCells,
-      graphEdges: computeRelativeNeighborhoodEdges(points, candidateEdges),
+      graphEdges: computeRelativeNeighborhoodEdges(
+        points,
+        delaunay,
+        candidateEdges
+      ),
       alphaTriangles: [],
     };
   }
@@ -552,7 +1092,50 @@ export const computeDerivedStructures = (
   // MST mode
   return {
     voronoiCells,
-    graphEdges: computeMinimumSpanningTreeEdges(points),
+    graphEdges: computeMinimumSpanningTreeEdges(points, candidateEdges),
     alphaTriangles: [],
   };
 };
+
+/**
+ * Computes all geometric structures needed for rendering based on visualization mode
+ * This is the main entry point for computing derived data
+ * @param points - Point set
+ * @param width - Canvas width
+ * @param height - Canvas height
+ * @param alpha - Alpha radius (alpha modes and alpha-bounded mesh)
+ * @param mode - Visualization mode
+ * @param parameters - Mode-specific parameters (β-skeleton, order k, ...)
+ * @returns Computed geometric structures ready for rendering
+ */
+export const computeDerivedStructures = (
+  points: Point[],
+  width: number,
+  height: number,
+  alpha: number,
+  mode: GraphMode,
+  parameters: ModeParameters
+): DerivedStructures => {
+  const structures = computeModeStructures(
+    points,
+    width,
+    height,
+    alpha,
+    mode,
+    parameters
+  );
+  if (parameters.circleDomain === null || points.length === 0) {
+    return structures;
+  }
+
+  // Circle analysis panel works on top of every mode
+  return {
+    ...structures,
+    circleAnalysis: computeCircleAnalysis(
+      points,
+      width,
+      height,
+      parameters.circleDomain
+    ),
+  };
+};
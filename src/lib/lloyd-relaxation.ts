@@ -0,0 +1,192 @@
+/**
+ * @fileoverview Lloyd relaxation (centroidal Voronoi tessellation)
+ * Moves every site to the centroid of its Voronoi cell, optionally weighted by
+ * a density function sampled from the background image
+ */
+
+import { DensityMap, LloydStepResult, Point } from "./types";
+import { isPointInPolygon } from "./math-utils";
+
+/**
+ * Minimum density kept in white image areas so every cell has mass
+ */
+const DENSITY_FLOOR = 0.02;
+
+/**
+ * Builds a density map at canvas resolution from an image
+ * Density is the darkness 1 − luminance, so dark areas attract more sites
+ * @param image - Background image data
+ * @param width - Canvas width
+ * @param height - Canvas height
+ * @returns Density map with values in [DENSITY_FLOOR, 1]
+ */
+export const createDensityMap = (
+  image: ImageData,
+  width: number,
+  height: number
+): DensityMap => {
+  const values = new Float32Array(width * height);
+  const scaleX = image.width / width;
+  const scaleY = image.height / height;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const imgX = Math.min(image.width - 1, Math.floor(x * scaleX));
+      const imgY = Math.min(image.height - 1, Math.floor(y * scaleY));
+      const imgIndex = (imgY * image.width + imgX) * 4;
+      const luminance =
+        (0.2126 * image.data[imgIndex] +
+          0.7152 * image.data[imgIndex + 1] +
+          0.0722 * image.data[imgIndex + 2]) /
+        255;
+      values[y * width + x] = Math.max(DENSITY_FLOOR, 1 - luminance);
+    }
+  }
+
+  return { width, height, values };
+};
+
+/**
+ * Computes the area-weighted centroid and the second moment of a polygon
+ * The second moment ∫|x − p|² dx is split as I_c + A·|c − p|², where I_c is
+ * the polar moment about the centroid (shoelace-style formulas)
+ * @param polygon - Polygon vertices
+ * @param site - Site used for the second moment
+ * @returns Centroid, area and energy, or null for degenerate polygons
+ */
+const polygonMoments = (
+  polygon: Array<[number, number]>,
+  site: Point
+): { cx: number; cy: number; mass: number; energy: number } | null => {
+  let area = 0;
+  let cx = 0;
+  let cy = 0;
+  let ixx = 0;
+  let iyy = 0;
+
+  for (let i = 0; i < polygon.length; i += 1) {
+    const [x0, y0] = polygon[i];
+    const [x1, y1] = polygon[(i + 1) % polygon.length];
+    const cross = x0 * y1 - x1 * y0;
+    area += cross;
+    cx += (x0 + x1) * cross;
+    cy += (y0 + y1) * cross;
+    ixx += (x0 * x0 + x0 * x1 + x1 * x1) * cross;
+    iyy += (y0 * y0 + y0 * y1 + y1 * y1) * cross;
+  }
+
+  area /= 2;
+  if (Math.abs(area) < 1e-9) {
+    return null;
+  }
+  cx /= 6 * area;
+  cy /= 6 * area;
+
+  // Polar moment about the origin, then moved to the site
+  const polarOrigin = (ixx + iyy) / 12;
+  const polarCentroid = Math.abs(polarOrigin - area * (cx * cx + cy * cy));
+  const mass = Math.abs(area);
+  const energy =
+    polarCentroid + mass * ((cx - site.x) ** 2 + (cy - site.y) ** 2);
+
+  return { cx, cy, mass, energy };
+};
+
+/**
+ * Computes the density-weighted centroid of a polygon by pixel sampling
+ * @param polygon - Polygon vertices
+ * @param site - Site used for the energy term
+ * @param density - Density map at canvas resolution
+ * @returns Weighted centroid, mass and energy, or null if the cell has no mass
+ */
+const weightedPolygonMoments = (
+  polygon: Array<[number, number]>,
+  site: Point,
+  density: DensityMap
+): { cx: number; cy: number; mass: number; energy: number } | null => {
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  for (const [x, y] of polygon) {
+    minX = Math.min(minX, x);
+    minY = Math.min(minY, y);
+    maxX = Math.max(maxX, x);
+    maxY = Math.max(maxY, y);
+  }
+  minX = Math.max(0, Math.floor(minX));
+  minY = Math.max(0, Math.floor(minY));
+  maxX = Math.min(density.width - 1, Math.ceil(maxX));
+  maxY = Math.min(density.height - 1, Math.ceil(maxY));
+
+  let mass = 0;
+  let sumX = 0;
+  let sumY = 0;
+  let energy = 0;
+
+  for (let y = minY; y <= maxY; y++) {
+    for (let x = minX; x <= maxX; x++) {
+      // Sample at pixel centres
+      const px = x + 0.5;
+      const py = y + 0.5;
+      if (!isPointInPolygon(px, py, polygon)) {
+        continue;
+      }
+      const rho = density.values[y * density.width + x];
+      mass += rho;
+      sumX += rho * px;
+      sumY += rho * py;
+      energy += rho * ((px - site.x) ** 2 + (py - site.y) ** 2);
+    }
+  }
+
+  if (mass <= 0) {
+    return null;
+  }
+  return { cx: sumX / mass, cy: sumY / mass, mass, energy };
+};
+
+/**
+ * Performs one Lloyd iteration
+ * Every non-pinned site moves to the (weighted) centroid of its cell.
+ * The energy is the CVT energy Σ ∫_cell ρ(x)|x − pᵢ|² dx of the sites
+ * before the move.
+ * @param points - Current sites
+ * @param cells - Voronoi cells of the current sites (same order)
+ * @param pinned - Indices of sites that must not move (e.g. being dragged)
+ * @param density - Optional density map (uniform density when null)
+ * @returns Relaxed sites, maximum displacement and energy
+ */
+export const lloydStep = (
+  points: Point[],
+  cells: Array<Array<[number, number]>>,
+  pinned: Set<number>,
+  density: DensityMap | null
+): LloydStepResult => {
+  let maxDisplacement = 0;
+  let energy = 0;
+
+  const next = points.map((point, index) => {
+    const cell = cells[index];
+    if (!cell || cell.length < 3) {
+      return point;
+    }
+    const moments = density
+      ? weightedPolygonMoments(cell, point, density)
+      : polygonMoments(cell, point);
+    if (!moments) {
+      return point;
+    }
+    energy += moments.energy;
+    if (pinned.has(index)) {
+      return point;
+    }
+    maxDisplacement = Math.max(
+      maxDisplacement,
+      Math.hypot(moments.cx - point.x, moments.cy - point.y)
+    );
+    return { ...point, x: moments.cx, y: moments.cy };
+  });
+
+  return { points: next, maxDisplacement, energy };
+};
@@ -3,8 +3,13 @@
  * Provides core computational functions for geometry calculations and transformations
  */
 
-import { EPSILON, SLIDER_RANGES } from "./constants";
-import { Point } from "./types";
+import {
+  BETA_SLIDER_STEP,
+  BETA_SNAP_VALUES,
+  EPSILON,
+  SLIDER_RANGES,
+} from "./constants";
+import { Point, TriangleIndex } from "./types";
 
 /**
  * Clamps a numeric value between min and max bounds
@@ -97,6 +102,33 @@ export const radiusToSlider = (r: number): number => {
   }
 };
 
+/**
+ * Converts a β value to slider position
+ * @param beta - β value in [0, ∞]
+ * @returns Slider value in range [0, 1]
+ */
+export const betaToSlider = (beta: number): number =>
+  Number.isFinite(beta) ? (Math.atan(Math.max(0, beta)) * 2) / Math.PI : 1;
+
+/**
+ * Converts slider value [0-1] to a β-skeleton parameter in [0, ∞]
+ * Uses β = tan(t·π/2), so the middle of the slider is β = 1 (Gabriel)
+ * and the right end is β = ∞. Positions within a quarter step of a value
+ * of BETA_SNAP_VALUES return it exactly: tan(π/4) rounds to 0.999…, and no
+ * step lands on β = 2.
+ * @param t - Slider value in range [0, 1]
+ * @returns β value (Infinity at t = 1)
+ */
+export const sliderToBeta = (t: number): number => {
+  if (t >= 1) {
+    return Number.POSITIVE_INFINITY;
+  }
+  const snapped = BETA_SNAP_VALUES.find(
+    (beta) => Math.abs(t - betaToSlider(beta)) < BETA_SLIDER_STEP / 4
+  );
+  return snapped ?? Math.tan((clamp(t, 0, 1) * Math.PI) / 2);
+};
+
 /**
  * Calculates squared Euclidean distance between two points
  * Used for comparisons to avoid expensive square root calculations
@@ -110,6 +142,13 @@ export const distanceSquared = (a: Point, b: Point): number => {
   return dx * dx + dy * dy;
 };
 
+/**
+ * Returns the weight radius of a point (0 when unweighted)
+ * @param point - Site
+ * @returns Weight radius in pixels
+ */
+export const pointWeight = (point: Point): number => point.weight ?? 0;
+
 /**
  * Calculates Euclidean distance between two points
  * @param a - First point
@@ -138,6 +177,31 @@ export const triangleArea = (
   cy: number
 ): number => Math.abs(ax * (by - cy) + bx * (cy - ay) + cx * (ay - by)) * 0.5;
 
+/**
+ * Calculates the circumcentre of a triangle
+ * @param a - First vertex
+ * @param b - Second vertex
+ * @param c - Third vertex
+ * @returns Circumcentre coordinates, null for a degenerate triangle
+ */
+export const circumcenter = (
+  a: Point,
+  b: Point,
+  c: Point
+): [number, number] | null => {
+  const bx = b.x - a.x;
+  const by = b.y - a.y;
+  const cx = c.x - a.x;
+  const cy = c.y - a.y;
+  const d = 2 * (bx * cy - by * cx);
+  if (Math.abs(d) < EPSILON) {
+    return null;
+  }
+  const b2 = bx * bx + by * by;
+  const c2 = cx * cx + cy * cy;
+  return [a.x + (cy * b2 - by * c2) / d, a.y + (bx * c2 - cx * b2) / d];
+};
+
 /**
  * Calculates circumradius of a triangle defined by three vertices
  * The circumradius is the radius of the circumscribed circle
@@ -168,6 +232,43 @@ export const circumradius = (
   return (a * b * c) / (4 * area);
 };
 
+/**
+ * Gets the next halfedge index in a triangle mesh
+ * Used for traversing the halfedge data structure from d3-delaunay
+ * @param index - Current halfedge index
+ * @returns Next halfedge index
+ */
+export const nextHalfedge = (index: number): number =>
+  index % 3 === 2 ? index - 2 : index + 1;
+
+/**
+ * Marks the Delaunay triangles that belong to a subset
+ * The subset keeps the Delaunay order (as the alpha complex does), so one
+ * merge pass recovers the triangle indices
+ * @param triangles - Delaunay triangle vertex indices, three per triangle
+ * @param subset - Triangles to mark, in Delaunay order
+ * @returns 1 for every marked triangle, 0 otherwise
+ */
+export const markTriangleSubset = (
+  triangles: Uint32Array,
+  subset: TriangleIndex[]
+): Uint8Array => {
+  const marked = new Uint8Array(triangles.length / 3);
+  let next = 0;
+  for (let t = 0; t < marked.length && next < subset.length; t += 1) {
+    const [a, b, c] = subset[next];
+    if (
+      triangles[3 * t] === a &&
+      triangles[3 * t + 1] === b &&
+      triangles[3 * t + 2] === c
+    ) {
+      marked[t] = 1;
+      next += 1;
+    }
+  }
+  return marked;
+};
+
 /**
  * Point-in-polygon test using ray casting algorithm
  * Counts intersections of a ray from point to infinity with polygon edges
@@ -197,6 +298,47 @@ export const isPointInPolygon = (
   return inside;
 };
 
+/**
+ * Clips a convex polygon by the half-plane a·x + b·y ≤ c
+ * Sutherland–Hodgman step for a single clipping line
+ * @param polygon - Convex polygon vertices
+ * @param a - X coefficient of the line
+ * @param b - Y coefficient of the line
+ * @param c - Constant term
+ * @returns Clipped polygon (empty if fully outside)
+ */
+export const clipPolygonByHalfPlane = (
+  polygon: Array<[number, number]>,
+  a: number,
+  b: number,
+  c: number
+): Array<[number, number]> => {
+  const result: Array<[number, number]> = [];
+  const count = polygon.length;
+
+  for (let index = 0; index < count; index += 1) {
+    const current = polygon[index];
+    const next = polygon[(index + 1) % count];
+    const currentValue = a * current[0] + b * current[1] - c;
+    const nextValue = a * next[0] + b * next[1] - c;
+    const currentInside = currentValue <= EPSILON;
+    const nextInside = nextValue <= EPSILON;
+
+    if (currentInside) {
+      result.push(current);
+    }
+    if (currentInside !== nextInside) {
+      const t = currentValue / (currentValue - nextValue);
+      result.push([
+        current[0] + t * (next[0] - current[0]),
+        current[1] + t * (next[1] - current[1]),
+      ]);
+    }
+  }
+
+  return result;
+};
+
 /**
  * Checks if a value is approximately equal to another within EPSILON tolerance
  * Used for floating-point comparisons
@@ -0,0 +1,191 @@
+/**
+ * @fileoverview Approximate medial axis of the alpha-shape
+ * The Voronoi vertices of dense samples (circumcentres of the Delaunay
+ * triangles) that fall inside the shape converge to its medial axis. The
+ * noisy branches are pruned with the λ-medial axis (Chazal–Lieutier): a
+ * medial point is kept when its nearest samples do not fit in a circle of
+ * radius smaller than λ.
+ */
+
+import { Delaunay } from "d3-delaunay";
+import { AlphaData, MedialAxis, MedialAxisVertex, Point } from "./types";
+import {
+  circumcenter,
+  circumradius,
+  markTriangleSubset,
+} from "./math-utils";
+
+/**
+ * Signed area test of the triangle (a, b, p)
+ * @returns Positive, negative or zero depending on the side of p
+ */
+const orientation = (a: Point, b: Point, px: number, py: number): number =>
+  (b.x - a.x) * (py - a.y) - (b.y - a.y) * (px - a.x);
+
+/**
+ * Radius of the smallest circle enclosing the three vertices of a triangle
+ * This is the λ value of its circumcentre: the circumradius for acute
+ * triangles, half the longest edge for obtuse ones
+ * @returns Enclosing radius
+ */
+const triangleLambda = (a: Point, b: Point, c: Point): number => {
+  const ab = (a.x - b.x) ** 2 + (a.y - b.y) ** 2;
+  const bc = (b.x - c.x) ** 2 + (b.y - c.y) ** 2;
+  const ca = (c.x - a.x) ** 2 + (c.y - a.y) ** 2;
+  const longest = Math.max(ab, bc, ca);
+  if (2 * longest >= ab + bc + ca) {
+    return Math.sqrt(longest) / 2;
+  }
+  return circumradius(a.x, a.y, b.x, b.y, c.x, c.y);
+};
+
+/**
+ * Locates the Delaunay triangle containing a position by a visibility walk
+ * Walks from a start triangle, always crossing an edge that separates the
+ * current triangle from the target (terminates in a Delaunay triangulation)
+ * @param points - Point set
+ * @param delaunay - Delaunay triangulation
+ * @param start - Start triangle index
+ * @param x - X coordinate
+ * @param y - Y coordinate
+ * @returns Triangle index, or −1 if the position lies outside the hull
+ */
+const locateTriangle = (
+  points: Point[],
+  delaunay: Delaunay<Point>,
+  start: number,
+  x: number,
+  y: number
+): number => {
+  const { triangles, halfedges } = delaunay;
+  const triangleCount = triangles.length / 3;
+  let current = start;
+
+  for (let step = 0; step <= triangleCount; step += 1) {
+    let next = -1;
+    for (let k = 0; k < 3; k += 1) {
+      const e = current * 3 + k;
+      const a = points[triangles[e]];
+      const b = points[triangles[current * 3 + ((k + 1) % 3)]];
+      const c = points[triangles[current * 3 + ((k + 2) % 3)]];
+      const side = orientation(a, b, x, y);
+      const inner = orientation(a, b, c.x, c.y);
+      if (side !== 0 && Math.sign(side) !== Math.sign(inner)) {
+        if (halfedges[e] < 0) {
+          return -1;
+        }
+        next = Math.floor(halfedges[e] / 3);
+        break;
+      }
+    }
+    if (next < 0) {
+      return current;
+    }
+    current = next;
+  }
+
+  return -1;
+};
+
+/**
+ * Computes the λ-medial axis approximation of the alpha-shape
+ * Vertices are the circumcentres of the alpha complex triangles lying inside
+ * the union of these triangles. Two vertices are joined when their triangles
+ * share an edge; points on that Voronoi edge have the shared edge endpoints
+ * as nearest samples, so the edge is kept when half the shared edge is at
+ * least λ.
+ * @param points - Point set
+ * @param delaunay - Delaunay triangulation
+ * @param alphaData - Alpha complex the axis is drawn on
+ * @param lambda - λ pruning threshold
+ * @returns Medial axis vertices (with inscribed disk radius) and edges
+ */
+export const computeMedialAxis = (
+  points: Point[],
+  delaunay: Delaunay<Point>,
+  alphaData: AlphaData,
+  lambda: number
+): MedialAxis => {
+  const { triangles, halfedges } = delaunay;
+  const triangleCount = triangles.length / 3;
+  const isAlphaTriangle = markTriangleSubset(triangles, alphaData.triangles);
+
+  // Interior circumcentres that pass the λ threshold
+  const vertexOfTriangle = new Int32Array(triangleCount).fill(-1);
+  const vertices: MedialAxisVertex[] = [];
+  for (let t = 0; t < triangleCount; t += 1) {
+    if (!isAlphaTriangle[t]) {
+      continue;
+    }
+    const a = points[triangles[t * 3]];
+    const b = points[triangles[t * 3 + 1]];
+    const c = points[triangles[t * 3 + 2]];
+    const vertexLambda = triangleLambda(a, b, c);
+    if (vertexLambda < lambda) {
+      continue;
+    }
+    const center = circumcenter(a, b, c);
+    if (!center) {
+      continue;
+    }
+    const [x, y] = center;
+    const container = locateTriangle(points, delaunay, t, x, y);
+    if (container < 0 || !isAlphaTriangle[container]) {
+      continue;
+    }
+    vertexOfTriangle[t] = vertices.length;
+    vertices.push({
+      x,
+      y,
+      radius: circumradius(a.x, a.y, b.x, b.y, c.x, c.y),
+      lambda: vertexLambda,
+    });
+  }
+
+  // Voronoi edges dual to the Delaunay edges shared by two kept vertices
+  const edges: Array<[number, number]> = [];
+  for (let e = 0; e < halfedges.length; e += 1) {
+    const opposite = halfedges[e];
+    if (opposite < e) {
+      continue;
+    }
+    const u = vertexOfTriangle[Math.floor(e / 3)];
+    const v = vertexOfTriangle[Math.floor(opposite / 3)];
+    if (u < 0 || v < 0) {
+      continue;
+    }
+    const a = points[triangles[e]];
+    const b = points[triangles[opposite]];
+    if (Math.hypot(a.x - b.x, a.y - b.y) / 2 >= lambda) {
+      edges.push([u, v]);
+    }
+  }
+
+  return { vertices, edges };
+};
+
+/**
+ * Finds the medial axis vertex closest to a position
+ * @param medialAxis - Medial axis
+ * @param x - X coordinate
+ * @param y - Y coordinate
+ * @param maxDistance - Pick radius
+ * @returns Vertex index, or null if none is within the pick radius
+ */
+export const findMedialAxisVertex = (
+  medialAxis: MedialAxis,
+  x: number,
+  y: number,
+  maxDistance: number
+): number | null => {
+  let best: number | null = null;
+  let bestDistance = maxDistance;
+  medialAxis.vertices.forEach((vertex, index) => {
+    const d = Math.hypot(vertex.x - x, vertex.y - y);
+    if (d <= bestDistance) {
+      best = index;
+      bestDistance = d;
+    }
+  });
+  return best;
+};
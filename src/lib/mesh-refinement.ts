@@ -0,0 +1,331 @@
+/**
+ * @fileoverview Delaunay refinement (Ruppert / Chew) mesh generation
+ * Inserts Steiner points into the constrained Delaunay triangulation of the
+ * points and their boundary until every triangle of the domain satisfies a
+ * minimum angle and a maximum area:
+ * - encroached boundary segments are split at their midpoint first
+ * - otherwise the worst triangle gets its circumcentre, unless that
+ *   circumcentre encroaches a segment, which is split instead
+ * The triangulation is rebuilt after each insertion, which keeps every step
+ * simple to animate. Triangles wedged in input corners sharper than 60° may
+ * keep a smaller angle: their circumcentres fall outside the domain.
+ */
+
+import { EPSILON } from "./constants";
+import { EdgeIndex, Point, RefinementMesh } from "./types";
+import { computeConstrainedDelaunay } from "./constrained-delaunay";
+import { circumcenter, nextHalfedge } from "./math-utils";
+
+/**
+ * Checks whether p lies strictly inside the diametral circle of segment ab
+ * @returns True if p encroaches the segment
+ */
+const encroaches = (a: Point, b: Point, p: Point): boolean =>
+  (a.x - p.x) * (b.x - p.x) + (a.y - p.y) * (b.y - p.y) < -EPSILON;
+
+/**
+ * Even-odd test against the boundary segments (supports holes)
+ * @param vertices - Mesh vertices
+ * @param segments - Boundary segments
+ * @param x - X coordinate
+ * @param y - Y coordinate
+ * @returns True if the position lies inside the domain
+ */
+const isInsideDomain = (
+  vertices: Point[],
+  segments: EdgeIndex[],
+  x: number,
+  y: number
+): boolean => {
+  let inside = false;
+  for (const [i, j] of segments) {
+    const a = vertices[i];
+    const b = vertices[j];
+    if (a.y > y !== b.y > y) {
+      const crossX = a.x + ((y - a.y) * (b.x - a.x)) / (b.y - a.y);
+      if (crossX > x) {
+        inside = !inside;
+      }
+    }
+  }
+  return inside;
+};
+
+/**
+ * Smallest angle of a triangle, in degrees
+ * @returns Minimum angle
+ */
+export const triangleMinAngle = (a: Point, b: Point, c: Point): number => {
+  const ab = Math.hypot(b.x - a.x, b.y - a.y);
+  const bc = Math.hypot(c.x - b.x, c.y - b.y);
+  const ca = Math.hypot(a.x - c.x, a.y - c.y);
+  const angle = (opposite: number, s1: number, s2: number) =>
+    Math.acos(
+      Math.min(1, Math.max(-1, (s1 * s1 + s2 * s2 - opposite * opposite) / (2 * s1 * s2)))
+    );
+  return (
+    (Math.min(angle(bc, ab, ca), angle(ca, ab, bc), angle(ab, bc, ca)) * 180) /
+    Math.PI
+  );
+};
+
+/**
+ * Unsigned area of a triangle
+ * @returns Area
+ */
+const triangleAreaOf = (a: Point, b: Point, c: Point): number =>
+  Math.abs((b.x - a.x) * (c.y - a.y) - (b.y - a.y) * (c.x - a.x)) / 2;
+
+/**
+ * Triangulates the current vertices and flags the triangles of the domain
+ * @param vertices - Mesh vertices
+ * @param segments - Boundary segments
+ * @returns Triangulation and per-triangle inside flags
+ */
+const triangulate = (
+  vertices: Point[],
+  segments: EdgeIndex[]
+): Pick<RefinementMesh, "triangulation" | "inside"> => {
+  const triangulation = computeConstrainedDelaunay(vertices, segments);
+  const { triangles } = triangulation;
+  const inside = new Uint8Array(triangles.length / 3);
+  for (let t = 0; t < inside.length; t += 1) {
+    const a = vertices[triangles[3 * t]];
+    const b = vertices[triangles[3 * t + 1]];
+    const c = vertices[triangles[3 * t + 2]];
+    // Collinear split points on the hull leave zero-area slivers
+    const scale = Math.max(
+      (b.x - a.x) ** 2 + (b.y - a.y) ** 2,
+      (c.x - a.x) ** 2 + (c.y - a.y) ** 2
+    );
+    if (triangleAreaOf(a, b, c) <= 1e-9 * scale) {
+      continue;
+    }
+    inside[t] = isInsideDomain(
+      vertices,
+      segments,
+      (a.x + b.x + c.x) / 3,
+      (a.y + b.y + c.y) / 3
+    )
+      ? 1
+      : 0;
+  }
+  return { triangulation, inside };
+};
+
+/**
+ * Creates the initial mesh: the CDT of the points and their boundary
+ * @param points - Input points
+ * @param boundary - Boundary segments as point index pairs
+ * @returns Unrefined mesh
+ */
+export const createRefinementMesh = (
+  points: Point[],
+  boundary: EdgeIndex[]
+): RefinementMesh => {
+  const vertices = points.map((point) => ({ ...point }));
+  const segments = boundary.map(([a, b]) => [a, b] as EdgeIndex);
+  return {
+    vertices,
+    segments,
+    inputCount: points.length,
+    steps: 0,
+    done: segments.length === 0,
+    ...triangulate(vertices, segments),
+  };
+};
+
+/**
+ * Splits a boundary segment at its midpoint
+ * @returns Vertices and segments after the split
+ */
+const splitSegment = (
+  mesh: RefinementMesh,
+  segmentIndex: number
+): Pick<RefinementMesh, "vertices" | "segments"> => {
+  const [a, b] = mesh.segments[segmentIndex];
+  const pa = mesh.vertices[a];
+  const pb = mesh.vertices[b];
+  const m = mesh.vertices.length;
+  const vertices = [
+    ...mesh.vertices,
+    { id: -m - 1, x: (pa.x + pb.x) / 2, y: (pa.y + pb.y) / 2 },
+  ];
+  const segments = mesh.segments.slice();
+  segments.splice(segmentIndex, 1, [a, m], [m, b]);
+  return { vertices, segments };
+};
+
+/**
+ * Performs one refinement step (one Steiner point)
+ * @param mesh - Current mesh
+ * @param minAngle - Minimum angle in degrees
+ * @param maxArea - Maximum triangle area
+ * @param maxVertices - Vertex budget, refinement stops when reached
+ * @returns Refined mesh, marked done when no triangle needs work
+ */
+export const refineMeshStep = (
+  mesh: RefinementMesh,
+  minAngle: number,
+  maxArea: number,
+  maxVertices: number
+): RefinementMesh => {
+  if (mesh.done) {
+    return mesh;
+  }
+  if (mesh.vertices.length >= maxVertices) {
+    return { ...mesh, done: true };
+  }
+
+  const { vertices, segments, triangulation, inside } = mesh;
+  const { triangles, constrained } = triangulation;
+  const segmentIndex = new Map<string, number>();
+  segments.forEach(([a, b], index) => {
+    segmentIndex.set(`${a},${b}`, index);
+    segmentIndex.set(`${b},${a}`, index);
+  });
+
+  const apply = (
+    update: Pick<RefinementMesh, "vertices" | "segments">
+  ): RefinementMesh => ({
+    ...mesh,
+    ...update,
+    ...triangulate(update.vertices, update.segments),
+    steps: mesh.steps + 1,
+  });
+
+  // 1. Encroached segments: the apex of an adjacent triangle is in the
+  // diametral circle
+  for (let e = 0; e < triangles.length; e += 1) {
+    if (!constrained[e]) {
+      continue;
+    }
+    const a = triangles[e];
+    const b = triangles[nextHalfedge(e)];
+    const apex = vertices[triangles[nextHalfedge(nextHalfedge(e))]];
+    const index = segmentIndex.get(`${a},${b}`);
+    if (index !== undefined && encroaches(vertices[a], vertices[b], apex)) {
+      return apply(splitSegment(mesh, index));
+    }
+  }
+
+  // 2. Bad triangles, worst first
+  const bad: Array<{ t: number; quality: number }> = [];
+  for (let t = 0; t < inside.length; t += 1) {
+    if (!inside[t]) {
+      continue;
+    }
+    const a = vertices[triangles[3 * t]];
+    const b = vertices[triangles[3 * t + 1]];
+    const c = vertices[triangles[3 * t + 2]];
+    const angle = triangleMinAngle(a, b, c);
+    if (angle < minAngle || triangleAreaOf(a, b, c) > maxArea) {
+      bad.push({ t, quality: angle });
+    }
+  }
+  bad.sort((p, q) => p.quality - q.quality);
+
+  for (const { t } of bad) {
+    const a = vertices[triangles[3 * t]];
+    const b = vertices[triangles[3 * t + 1]];
+    const c = vertices[triangles[3 * t + 2]];
+    const circumcentre = circumcenter(a, b, c);
+    if (!circumcentre) {
+      continue;
+    }
+    const center: Point = {
+      id: -vertices.length - 1,
+      x: circumcentre[0],
+      y: circumcentre[1],
+    };
+
+    // A circumcentre encroaching a segment splits the segment instead
+    const encroached = segments.findIndex(([i, j]) =>
+      encroaches(vertices[i], vertices[j], center)
+    );
+    if (encroached !== -1) {
+      return apply(splitSegment(mesh, encroached));
+    }
+    if (
+      !isInsideDomain(vertices, segments, center.x, center.y) ||
+      vertices.some(
+        (vertex) => Math.hypot(vertex.x - center.x, vertex.y - center.y) < 1e-6
+      )
+    ) {
+      continue;
+    }
+    return apply({ vertices: [...vertices, center], segments });
+  }
+
+  return { ...mesh, done: true };
+};
+
+/**
+ * Collects the edges of the domain triangles
+ * @param mesh - Refinement mesh
+ * @returns Undirected edges as vertex index pairs
+ */
+export const collectMeshEdges = (mesh: RefinementMesh): EdgeIndex[] => {
+  const { triangulation, inside } = mesh;
+  const { triangles, halfedges } = triangulation;
+  const edges: EdgeIndex[] = [];
+  for (let e = 0; e < triangles.length; e += 1) {
+    const twin = halfedges[e];
+    const here = inside[Math.floor(e / 3)];
+    const there = twin === -1 ? 0 : inside[Math.floor(twin / 3)];
+    // Each edge once: from the inside side, or from the lower halfedge
+    if (!here || (there && twin < e)) {
+      continue;
+    }
+    edges.push([triangles[e], triangles[nextHalfedge(e)]]);
+  }
+  return edges;
+};
+
+/**
+ * Computes the quality measures of the domain triangles
+ * @param mesh - Refinement mesh
+ * @returns Minimum angle (degrees) and area of every domain triangle
+ */
+export const computeMeshQuality = (
+  mesh: RefinementMesh
+): { minAngles: number[]; areas: number[] } => {
+  const { vertices, triangulation, inside } = mesh;
+  const { triangles } = triangulation;
+  const minAngles: number[] = [];
+  const areas: number[] = [];
+  for (let t = 0; t < inside.length; t += 1) {
+    if (!inside[t]) {
+      continue;
+    }
+    const a = vertices[triangles[3 * t]];
+    const b = vertices[triangles[3 * t + 1]];
+    const c = vertices[triangles[3 * t + 2]];
+    minAngles.push(triangleMinAngle(a, b, c));
+    areas.push(triangleAreaOf(a, b, c));
+  }
+  return { minAngles, areas };
+};
+
+/**
+ * Counts values into equal-width bins
+ * @param values - Values
+ * @param bins - Number of bins
+ * @param min - Lower bound of the first bin
+ * @param max - Upper bound of the last bin
+ * @returns Count per bin (values outside the range are clamped)
+ */
+export const histogram = (
+  values: number[],
+  bins: number,
+  min: number,
+  max: number
+): number[] => {
+  const counts = new Array<number>(bins).fill(0);
+  const width = (max - min) / bins || 1;
+  for (const value of values) {
+    const bin = Math.min(bins - 1, Math.max(0, Math.floor((value - min) / width)));
+    counts[bin] += 1;
+  }
+  return counts;
+};
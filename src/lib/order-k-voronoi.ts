@@ -0,0 +1,168 @@
+/**
+ * @fileoverview Order-k Voronoi diagram computation
+ * Computes exact convex regions sharing the same k nearest sites, using the
+ * Delaunay adjacency to limit both the candidate k-sets and the clipping
+ * half-planes of each region
+ */
+
+import { Delaunay } from "d3-delaunay";
+import { OrderKRegion, Point } from "./types";
+import { clipPolygonByHalfPlane } from "./math-utils";
+
+/**
+ * Canonical key of a site set (sorted indices)
+ * @param sites - Site indices
+ * @returns Key string such as "2,5,9"
+ */
+const siteSetKey = (sites: number[]): string => sites.join(",");
+
+/**
+ * Computes the region whose k nearest sites are exactly `sites`
+ * Region(S) = ⋂ {x : |x − s| ≤ |x − u|} for s ∈ S and u ∉ S. Only the
+ * Delaunay neighbours u of S are needed: for any x, the nearest site outside
+ * its k-set is adjacent to that k-set (greedy routing in the triangulation).
+ * @param points - Point set
+ * @param neighbors - Delaunay adjacency lists
+ * @param sites - Sorted site indices of the k-set
+ * @param width - Canvas width
+ * @param height - Canvas height
+ * @returns Convex polygon (empty if the k-set has no region)
+ */
+const computeOrderKRegion = (
+  points: Point[],
+  neighbors: number[][],
+  sites: number[],
+  width: number,
+  height: number
+): Array<[number, number]> => {
+  const members = new Set(sites);
+  const outside = new Set<number>();
+  for (const s of sites) {
+    for (const u of neighbors[s]) {
+      if (!members.has(u)) {
+        outside.add(u);
+      }
+    }
+  }
+
+  let region: Array<[number, number]> = [
+    [0, 0],
+    [width, 0],
+    [width, height],
+    [0, height],
+  ];
+
+  for (const s of sites) {
+    const site = points[s];
+    const siteNorm = site.x * site.x + site.y * site.y;
+    for (const u of outside) {
+      const other = points[u];
+      region = clipPolygonByHalfPlane(
+        region,
+        2 * (other.x - site.x),
+        2 * (other.y - site.y),
+        other.x * other.x + other.y * other.y - siteNorm
+      );
+      if (region.length < 3) {
+        return [];
+      }
+    }
+  }
+
+  return region;
+};
+
+/**
+ * Computes the order-k Voronoi diagram clipped to the canvas
+ * k-sets are discovered level by level: every order-(j+1) set is an
+ * order-j set plus one of its Delaunay neighbours, and each candidate is
+ * kept only if its exact region is non-empty.
+ * @param points - Point set
+ * @param delaunay - Delaunay triangulation
+ * @param k - Order of the diagram (clamped to [1, n − 1])
+ * @param width - Canvas width
+ * @param height - Canvas height
+ * @returns Regions with their sorted k-set
+ */
+export const computeOrderKRegions = (
+  points: Point[],
+  delaunay: Delaunay<Point>,
+  k: number,
+  width: number,
+  height: number
+): OrderKRegion[] => {
+  if (points.length === 0) {
+    return [];
+  }
+  const order = Math.max(1, Math.min(k, points.length - 1 || 1));
+  const neighbors = points.map((_, index) =>
+    Array.from(delaunay.neighbors(index))
+  );
+
+  let level: OrderKRegion[] = points
+    .map((_, index) => ({
+      sites: [index],
+      polygon: computeOrderKRegion(points, neighbors, [index], width, height),
+    }))
+    .filter((region) => region.polygon.length);
+
+  for (let j = 1; j < order; j += 1) {
+    const seen = new Set<string>();
+    const next: OrderKRegion[] = [];
+
+    for (const { sites } of level) {
+      const members = new Set(sites);
+      for (const s of sites) {
+        for (const t of neighbors[s]) {
+          if (members.has(t)) {
+            continue;
+          }
+          const candidate = [...sites, t].sort((a, b) => a - b);
+          const key = siteSetKey(candidate);
+          if (seen.has(key)) {
+            continue;
+          }
+          seen.add(key);
+          const polygon = computeOrderKRegion(
+            points,
+            neighbors,
+            candidate,
+            width,
+            height
+          );
+          if (polygon.length) {
+            next.push({ sites: candidate, polygon });
+          }
+        }
+      }
+    }
+
+    level = next;
+  }
+
+  return level;
+};
+
+/**
+ * Finds the k nearest sites of a position (used for hover labels)
+ * @param points - Point set
+ * @param x - X coordinate
+ * @param y - Y coordinate
+ * @param k - Number of sites
+ * @returns Sorted indices of the k nearest sites
+ */
+export const findKNearestSites = (
+  points: Point[],
+  x: number,
+  y: number,
+  k: number
+): number[] =>
+  points
+    .map((point, index) => ({
+      index,
+      distance: (point.x - x) ** 2 + (point.y - y) ** 2,
+    }))
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, k)
+    .map(({ index }) => index)
+    .sort((a, b) => a - b);
@@ -0,0 +1,105 @@
+/**
+ * @fileoverview Minimal PNG encoder
+ * Canvas exports are limited to 8 bits per channel, so 16-bit grayscale
+ * images are encoded by hand (zlib compression via CompressionStream)
+ */
+
+/**
+ * CRC-32 lookup table (polynomial 0xEDB88320) used by PNG chunks
+ */
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * Computes the CRC-32 of a byte sequence
+ * @param bytes - Input bytes
+ * @returns Unsigned CRC-32
+ */
+const crc32 = (bytes: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+/**
+ * Builds a PNG chunk (length, type, data, CRC of type + data)
+ * @param type - Four-letter chunk type
+ * @param data - Chunk payload
+ * @returns Chunk bytes
+ */
+const pngChunk = (type: string, data: Uint8Array): Uint8Array => {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) {
+    chunk[4 + i] = type.charCodeAt(i);
+  }
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+};
+
+/**
+ * Compresses bytes in the zlib format expected by the PNG IDAT chunk
+ * @param bytes - Raw bytes
+ * @returns Compressed bytes
+ */
+const zlibCompress = async (bytes: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([bytes as BlobPart])
+    .stream()
+    .pipeThrough(new CompressionStream("deflate"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+/**
+ * Encodes 16-bit grayscale samples as a PNG image
+ * @param samples - Row-major samples (width × height)
+ * @param width - Image width
+ * @param height - Image height
+ * @returns PNG file
+ */
+export const encodeGray16Png = async (
+  samples: Uint16Array,
+  width: number,
+  height: number
+): Promise<Blob> => {
+  const header = new Uint8Array(13);
+  const headerView = new DataView(header.buffer);
+  headerView.setUint32(0, width);
+  headerView.setUint32(4, height);
+  header[8] = 16; // bit depth
+  header[9] = 0; // colour type: grayscale
+  // compression, filter and interlace methods stay 0
+
+  // Each scanline starts with filter type 0, samples are big-endian
+  const rowLength = 1 + width * 2;
+  const raw = new Uint8Array(rowLength * height);
+  const rawView = new DataView(raw.buffer);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      rawView.setUint16(y * rowLength + 1 + x * 2, samples[y * width + x]);
+    }
+  }
+
+  const signature = new Uint8Array([137, 80, 78, 71, 13, 10, 26, 10]);
+  return new Blob(
+    [
+      signature,
+      pngChunk("IHDR", header),
+      pngChunk("IDAT", await zlibCompress(raw)),
+      pngChunk("IEND", new Uint8Array(0)),
+    ] as BlobPart[],
+    { type: "image/png" }
+  );
+};
@@ -0,0 +1,73 @@
+/**
+ * @fileoverview Power diagram (Laguerre–Voronoi) computation
+ * Builds weighted Voronoi cells by half-plane clipping, since the d3-delaunay
+ * Voronoi backend only supports unweighted sites
+ */
+
+import { EPSILON } from "./constants";
+import { Point } from "./types";
+import { clipPolygonByHalfPlane, pointWeight } from "./math-utils";
+
+/**
+ * Computes the power distance from a position to a weighted site
+ * pow(x, p) = |x − p|² − w², where w is the weight radius
+ * @param x - X coordinate
+ * @param y - Y coordinate
+ * @param point - Weighted site
+ * @returns Power distance (negative inside the weight circle)
+ */
+export const powerDistance = (x: number, y: number, point: Point): number => {
+  const dx = x - point.x;
+  const dy = y - point.y;
+  const w = pointWeight(point);
+  return dx * dx + dy * dy - w * w;
+};
+
+/**
+ * Computes power diagram cells clipped to the canvas
+ * The cell of site i is the intersection of the half-planes
+ * pow(x, pᵢ) ≤ pow(x, pⱼ), i.e. 2x·(pⱼ − pᵢ) ≤ |pⱼ|² − |pᵢ|² − wⱼ² + wᵢ².
+ * A site dominated by heavier neighbours gets an empty cell.
+ * Time complexity: O(n²) clipping steps
+ * @param points - Weighted sites
+ * @param width - Canvas width
+ * @param height - Canvas height
+ * @returns One polygon per site (empty when the site is hidden)
+ */
+export const computePowerCells = (
+  points: Point[],
+  width: number,
+  height: number
+): Array<Array<[number, number]>> =>
+  points.map((site, i) => {
+    let cell: Array<[number, number]> = [
+      [0, 0],
+      [width, 0],
+      [width, height],
+      [0, height],
+    ];
+    const wi = pointWeight(site);
+    const siteNorm = site.x * site.x + site.y * site.y - wi * wi;
+
+    for (let j = 0; j < points.length && cell.length; j += 1) {
+      if (i === j) {
+        continue;
+      }
+      const other = points[j];
+      const a = 2 * (other.x - site.x);
+      const b = 2 * (other.y - site.y);
+      const wj = pointWeight(other);
+      const otherNorm = other.x * other.x + other.y * other.y - wj * wj;
+
+      if (Math.abs(a) < EPSILON && Math.abs(b) < EPSILON) {
+        // Coincident sites: the lighter one (or the later one on ties) is hidden
+        if (otherNorm < siteNorm || (otherNorm === siteNorm && j < i)) {
+          cell = [];
+        }
+        continue;
+      }
+      cell = clipPolygonByHalfPlane(cell, a, b, otherNorm - siteNorm);
+    }
+
+    return cell.length >= 3 ? cell : [];
+  });
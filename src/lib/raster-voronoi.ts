@@ -0,0 +1,385 @@
+/**
+ * @fileoverview Discrete (raster) Voronoi computation
+ * Labels every pixel with its nearest site under a pluggable distance function
+ * Used by the brute-force and weighted Voronoi modes, whose curved bisectors
+ * and disconnected cells cannot be represented by d3 polygons
+ */
+
+import {
+  DISTANCE_TIE_TOLERANCE,
+  MULTIPLICATIVE_WEIGHT_UNIT,
+} from "./constants";
+import { DistanceMetric, GraphMode, Point } from "./types";
+import { pointWeight } from "./math-utils";
+
+/**
+ * Distance from a pixel to a site, smaller is closer
+ * Only the ordering matters, so squared or shifted values are allowed
+ */
+export type SiteDistance = (x: number, y: number, site: Point) => number;
+
+/**
+ * Squared Euclidean distance (plain Voronoi diagram)
+ */
+export const euclideanSiteDistance: SiteDistance = (x, y, site) => {
+  const dx = x - site.x;
+  const dy = y - site.y;
+  return dx * dx + dy * dy;
+};
+
+/**
+ * Manhattan (L1) distance; bisectors are made of axis-parallel and diagonal
+ * pieces, and become 2D regions when two sites lie on a common diagonal
+ */
+export const manhattanSiteDistance: SiteDistance = (x, y, site) =>
+  Math.abs(x - site.x) + Math.abs(y - site.y);
+
+/**
+ * Chebyshev (L∞) distance
+ */
+export const chebyshevSiteDistance: SiteDistance = (x, y, site) =>
+  Math.max(Math.abs(x - site.x), Math.abs(y - site.y));
+
+/**
+ * Creates the Minkowski (Lp) distance |dx|^p + |dy|^p
+ * The p-th root is skipped since it preserves the ordering
+ * @param p - Exponent (p ≥ 1)
+ * @returns Site distance function
+ */
+export const createMinkowskiSiteDistance =
+  (p: number): SiteDistance =>
+  (x, y, site) =>
+    Math.abs(x - site.x) ** p + Math.abs(y - site.y) ** p;
+
+/**
+ * Creates the anisotropic distance |A·(x − p)|² for a 2×2 matrix A
+ * The unit ball is an ellipse whose axes are given by the inverse of A
+ * @param matrix - Row-major matrix [a, b, c, d]
+ * @returns Site distance function
+ */
+export const createAnisotropicSiteDistance = ([
+  a,
+  b,
+  c,
+  d,
+]: DistanceMetric["matrix"]): SiteDistance => (x, y, site) => {
+  const dx = x - site.x;
+  const dy = y - site.y;
+  const u = a * dx + b * dy;
+  const v = c * dx + d * dy;
+  return u * u + v * v;
+};
+
+/**
+ * Selects the site distance of a metric
+ * @param metric - Distance metric
+ * @returns Site distance function
+ */
+export const siteDistanceForMetric = (metric: DistanceMetric): SiteDistance => {
+  switch (metric.kind) {
+    case "manhattan":
+      return manhattanSiteDistance;
+    case "chebyshev":
+      return chebyshevSiteDistance;
+    case "minkowski":
+      return createMinkowskiSiteDistance(metric.p);
+    case "anisotropic":
+      return createAnisotropicSiteDistance(metric.matrix);
+    default:
+      return euclideanSiteDistance;
+  }
+};
+
+/**
+ * Converts site distance values of a metric back to lengths
+ * Needed wherever the actual distance matters, since the site distances only
+ * preserve the ordering (squared or unrooted values)
+ * @param metric - Distance metric
+ * @returns Conversion from site distance value to length
+ */
+export const siteDistanceToLength = (
+  metric: DistanceMetric
+): ((value: number) => number) => {
+  switch (metric.kind) {
+    case "manhattan":
+    case "chebyshev":
+      return (value) => value;
+    case "minkowski":
+      return (value) => value ** (1 / metric.p);
+    default:
+      return Math.sqrt;
+  }
+};
+
+/**
+ * Multiplicatively weighted distance d(x, p) / m(p)
+ * The factor is m(p) = 1 + w / MULTIPLICATIVE_WEIGHT_UNIT, so unweighted
+ * sites keep a factor of 1 and the diagram reduces to plain Voronoi.
+ * Bisectors are Apollonius circles.
+ */
+export const multiplicativeSiteDistance: SiteDistance = (x, y, site) =>
+  Math.hypot(x - site.x, y - site.y) /
+  (1 + pointWeight(site) / MULTIPLICATIVE_WEIGHT_UNIT);
+
+/**
+ * Additively weighted (Apollonius) distance d(x, p) − w(p)
+ * This is the signed distance to the weight circle; bisectors are hyperbola
+ * branches
+ */
+export const additiveSiteDistance: SiteDistance = (x, y, site) =>
+  Math.hypot(x - site.x, y - site.y) - pointWeight(site);
+
+/**
+ * Selects the site distance used by a raster mode
+ * @param mode - Visualization mode
+ * @param metric - Metric of the brute-force mode
+ * @returns Site distance function
+ */
+export const siteDistanceForMode = (
+  mode: GraphMode,
+  metric: DistanceMetric
+): SiteDistance => {
+  if (mode === "voronoi-multiplicative") {
+    return multiplicativeSiteDistance;
+  }
+  if (mode === "voronoi-additive") {
+    return additiveSiteDistance;
+  }
+  return siteDistanceForMetric(metric);
+};
+
+/**
+ * Labels every pixel with the index of its nearest site (brute force)
+ * Site coordinates are rounded to integers so the diagram is truly discrete
+ * and matches the rounded point positions drawn on screen.
+ * Ties (up to DISTANCE_TIE_TOLERANCE) keep the lowest site index, so
+ * bisector pixels and L1 tie regions are rendered deterministically.
+ * Time complexity: O(W·H·N)
+ * @param points - Point set (seeds)
+ * @param width - Canvas width
+ * @param height - Canvas height
+ * @param siteDistance - Distance function
+ * @param distances - Optional buffers receiving the nearest and second-nearest
+ * site distance values of every pixel (Infinity when there is no second site)
+ * @returns Row-major label map (width × height)
+ */
+export const computeNearestSiteLabels = (
+  points: Point[],
+  width: number,
+  height: number,
+  siteDistance: SiteDistance,
+  distances?: { first: Float32Array; second: Float32Array }
+): Int32Array => {
+  const labels = new Int32Array(width * height);
+  if (points.length === 0) {
+    return labels;
+  }
+  const seeds = points.map((point) => ({
+    ...point,
+    x: Math.round(point.x),
+    y: Math.round(point.y),
+  }));
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let closestIndex = 0;
+      let closestDistance = siteDistance(x, y, seeds[0]);
+      let secondDistance = Number.POSITIVE_INFINITY;
+
+      for (let i = 1; i < seeds.length; i++) {
+        const d = siteDistance(x, y, seeds[i]);
+        if (
+          d <
+          closestDistance - DISTANCE_TIE_TOLERANCE * Math.abs(closestDistance)
+        ) {
+          secondDistance = closestDistance;
+          closestDistance = d;
+          closestIndex = i;
+        } else if (d < secondDistance) {
+          secondDistance = d;
+        }
+      }
+
+      labels[y * width + x] = closestIndex;
+      if (distances) {
+        distances.first[y * width + x] = closestDistance;
+        distances.second[y * width + x] = secondDistance;
+      }
+    }
+  }
+
+  return labels;
+};
+
+/**
+ * Checks whether a candidate site beats the current best one for a pixel
+ * Uses the same tie rule as the brute force: near-equal distances go to the
+ * lowest site index
+ * @param distance - Candidate distance
+ * @param label - Candidate site index
+ * @param bestDistance - Current best distance
+ * @param bestLabel - Current best site index (−1 when none)
+ * @returns True if the candidate should replace the current best
+ */
+const isCloserSite = (
+  distance: number,
+  label: number,
+  bestDistance: number,
+  bestLabel: number
+): boolean => {
+  if (bestLabel < 0) {
+    return true;
+  }
+  const tolerance = DISTANCE_TIE_TOLERANCE * Math.abs(bestDistance);
+  if (distance < bestDistance - tolerance) {
+    return true;
+  }
+  return distance <= bestDistance + tolerance && label < bestLabel;
+};
+
+/**
+ * Labels every pixel with an approximate nearest site by jump flooding (JFA)
+ * Seeds are written at their pixels, then for steps k = 2^⌈log₂ max(W, H)⌉−1
+ * down to 1 every pixel adopts the closest site among the labels found at
+ * offsets (±k, ±k). Sites can be lost behind closer ones, so a few pixels
+ * may differ from the brute force.
+ * Time complexity: O(W·H·log max(W, H)), independent of N
+ * @param points - Point set (seeds)
+ * @param width - Canvas width
+ * @param height - Canvas height
+ * @param siteDistance - Distance function
+ * @returns Row-major label map (width × height)
+ */
+export const computeJumpFloodLabels = (
+  points: Point[],
+  width: number,
+  height: number,
+  siteDistance: SiteDistance
+): Int32Array => {
+  let labels = new Int32Array(width * height).fill(-1);
+  if (points.length === 0 || labels.length === 0) {
+    return labels.fill(0);
+  }
+  const seeds = points.map((point) => ({
+    ...point,
+    x: Math.round(point.x),
+    y: Math.round(point.y),
+  }));
+
+  for (let i = 0; i < seeds.length; i++) {
+    const x = Math.min(width - 1, Math.max(0, seeds[i].x));
+    const y = Math.min(height - 1, Math.max(0, seeds[i].y));
+    const index = y * width + x;
+    const current = labels[index];
+    if (
+      current < 0 ||
+      isCloserSite(
+        siteDistance(x, y, seeds[i]),
+        i,
+        siteDistance(x, y, seeds[current]),
+        current
+      )
+    ) {
+      labels[index] = i;
+    }
+  }
+
+  let next = new Int32Array(labels.length);
+  let step = 1;
+  while (step * 2 < Math.max(width, height)) {
+    step *= 2;
+  }
+
+  for (; step >= 1; step = Math.floor(step / 2)) {
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        let bestLabel = -1;
+        let bestDistance = Number.POSITIVE_INFINITY;
+
+        for (let dy = -step; dy <= step; dy += step) {
+          const ny = y + dy;
+          if (ny < 0 || ny >= height) {
+            continue;
+          }
+          for (let dx = -step; dx <= step; dx += step) {
+            const nx = x + dx;
+            if (nx < 0 || nx >= width) {
+              continue;
+            }
+            const label = labels[ny * width + nx];
+            if (label < 0 || label === bestLabel) {
+              continue;
+            }
+            const d = siteDistance(x, y, seeds[label]);
+            if (isCloserSite(d, label, bestDistance, bestLabel)) {
+              bestDistance = d;
+              bestLabel = label;
+            }
+          }
+        }
+
+        next[y * width + x] = bestLabel;
+      }
+    }
+    [labels, next] = [next, labels];
+  }
+
+  // Pixels never reached (only possible without seeds in range) fall back to 0
+  for (let index = 0; index < labels.length; index++) {
+    if (labels[index] < 0) {
+      labels[index] = 0;
+    }
+  }
+
+  return labels;
+};
+
+/**
+ * Counts the pixels labelled differently in two label maps
+ * @param a - First label map
+ * @param b - Second label map (same size)
+ * @returns Number of differing pixels
+ */
+export const countLabelDifferences = (a: Int32Array, b: Int32Array): number => {
+  let count = 0;
+  for (let index = 0; index < a.length; index++) {
+    if (a[index] !== b[index]) {
+      count += 1;
+    }
+  }
+  return count;
+};
+
+/**
+ * Counts the pixels of every site in a label map
+ * A site whose count is 0 is dominated everywhere (weighted modes)
+ * @param labels - Row-major label map
+ * @param count - Number of sites
+ * @returns Pixel count per site
+ */
+export const countPixelsPerSite = (
+  labels: Int32Array,
+  count: number
+): Int32Array => {
+  const sizes = new Int32Array(count);
+  for (let index = 0; index < labels.length; index++) {
+    sizes[labels[index]] += 1;
+  }
+  return sizes;
+};
+
+/**
+ * Serializes the sites and their weights as GeoJSON point features
+ * @param points - Point set
+ * @param mode - Visualization mode, stored so the diagram can be rebuilt
+ * @returns GeoJSON FeatureCollection
+ */
+export const sitesToGeoJson = (points: Point[], mode: GraphMode): object => ({
+  type: "FeatureCollection",
+  properties: { mode, weightUnit: MULTIPLICATIVE_WEIGHT_UNIT },
+  features: points.map((point, index) => ({
+    type: "Feature",
+    properties: { index, weight: pointWeight(point) },
+    geometry: { type: "Point", coordinates: [point.x, point.y] },
+  })),
+});
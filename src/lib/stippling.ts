@@ -0,0 +1,155 @@
+/**
+ * @fileoverview Weighted Voronoi stippling (Secord, 2002)
+ * Turns an image into a stipple drawing:
+ * - Seeds are importance-sampled from the image darkness
+ * - Weighted Lloyd iterations move them to density-weighted cell centroids
+ * - Dot radii follow the mean darkness of each cell
+ */
+
+import { Delaunay } from "d3-delaunay";
+import { STIPPLE_MAX_RADIUS, STIPPLE_MIN_RADIUS } from "./constants";
+import { DensityMap, Stipple, StippleStepResult } from "./types";
+
+/**
+ * Samples seed positions proportionally to a density map
+ * Inverts the cumulative distribution of the pixel densities, then jitters
+ * each sample inside its pixel
+ * @param density - Density map at canvas resolution
+ * @param count - Number of seeds
+ * @param random - Random source in [0, 1)
+ * @returns Stipples with a default radius
+ */
+export const sampleStipplesFromDensity = (
+  density: DensityMap,
+  count: number,
+  random: () => number = Math.random
+): Stipple[] => {
+  const { width, values } = density;
+  const cumulative = new Float64Array(values.length);
+  let total = 0;
+  for (let index = 0; index < values.length; index++) {
+    total += values[index];
+    cumulative[index] = total;
+  }
+
+  const stipples: Stipple[] = [];
+  for (let i = 0; i < count; i++) {
+    const target = random() * total;
+    // Binary search for the first pixel whose cumulative mass exceeds target
+    let low = 0;
+    let high = cumulative.length - 1;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (cumulative[middle] < target) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+    stipples.push({
+      x: (low % width) + random(),
+      y: Math.floor(low / width) + random(),
+      radius: STIPPLE_MIN_RADIUS,
+    });
+  }
+
+  return stipples;
+};
+
+/**
+ * Performs one weighted Lloyd iteration over all stipples
+ * Every pixel is assigned to its nearest stipple (Delaunay point location
+ * with the previous pixel's site as a hint), then each stipple moves to the
+ * density-weighted centroid of its pixels.
+ * @param stipples - Current stipples
+ * @param density - Density map at canvas resolution
+ * @returns Moved stipples with updated radii and the maximum displacement
+ */
+export const stippleLloydStep = (
+  stipples: Stipple[],
+  density: DensityMap
+): StippleStepResult => {
+  const count = stipples.length;
+  if (count === 0) {
+    return { stipples, maxDisplacement: 0 };
+  }
+
+  const delaunay = Delaunay.from(
+    stipples,
+    (stipple) => stipple.x,
+    (stipple) => stipple.y
+  );
+  const mass = new Float64Array(count);
+  const sumX = new Float64Array(count);
+  const sumY = new Float64Array(count);
+  const area = new Float64Array(count);
+
+  let hint = 0;
+  for (let y = 0; y < density.height; y++) {
+    for (let x = 0; x < density.width; x++) {
+      const px = x + 0.5;
+      const py = y + 0.5;
+      hint = delaunay.find(px, py, hint);
+      const rho = density.values[y * density.width + x];
+      mass[hint] += rho;
+      sumX[hint] += rho * px;
+      sumY[hint] += rho * py;
+      area[hint] += 1;
+    }
+  }
+
+  // Mean darkness per cell, normalized by the darkest cell
+  let maxMean = 0;
+  const meanDensity = new Float64Array(count);
+  for (let i = 0; i < count; i++) {
+    meanDensity[i] = area[i] > 0 ? mass[i] / area[i] : 0;
+    maxMean = Math.max(maxMean, meanDensity[i]);
+  }
+
+  let maxDisplacement = 0;
+  const next = stipples.map((stipple, i) => {
+    const darkness = maxMean > 0 ? meanDensity[i] / maxMean : 0;
+    const radius =
+      STIPPLE_MIN_RADIUS + (STIPPLE_MAX_RADIUS - STIPPLE_MIN_RADIUS) * darkness;
+    if (mass[i] <= 0) {
+      return { ...stipple, radius };
+    }
+    const cx = sumX[i] / mass[i];
+    const cy = sumY[i] / mass[i];
+    maxDisplacement = Math.max(
+      maxDisplacement,
+      Math.hypot(cx - stipple.x, cy - stipple.y)
+    );
+    return { x: cx, y: cy, radius };
+  });
+
+  return { stipples: next, maxDisplacement };
+};
+
+/**
+ * Serializes stipples as a standalone SVG document
+ * @param stipples - Stipples to export
+ * @param width - Drawing width
+ * @param height - Drawing height
+ * @returns SVG markup
+ */
+export const stipplesToSvg = (
+  stipples: Stipple[],
+  width: number,
+  height: number
+): string => {
+  const circles = stipples
+    .map(
+      ({ x, y, radius }) =>
+        `<circle cx="${x.toFixed(2)}" cy="${y.toFixed(2)}" r="${radius.toFixed(2)}"/>`
+    )
+    .join("\n");
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    `<rect width="100%" height="100%" fill="#ffffff"/>`,
+    `<g fill="#000000">`,
+    circles,
+    `</g>`,
+    `</svg>`,
+  ].join("\n");
+};
@@ -10,6 +10,42 @@ export type Point = {
   id: number;
   x: number;
   y: number;
+  /** Optional weight radius in pixels (weighted modes only, 0 when absent) */
+  weight?: number;
+};
+
+/**
+ * Circle given by its centre and radius
+ */
+export type Circle = {
+  x: number;
+  y: number;
+  radius: number;
+};
+
+/**
+ * Domain allowed for the centre of the largest empty circle
+ */
+export type CircleDomain = "canvas" | "hull";
+
+/**
+ * Diameter and width of a point set, as point indices
+ */
+export type CaliperMeasures = {
+  /** Farthest pair of points */
+  diameter: { endpoints: [number, number]; length: number };
+  /** Narrowest strip: hull edge and the opposite hull vertex */
+  width: { edge: [number, number]; apex: number; length: number };
+};
+
+/**
+ * Results of the circle analysis panel
+ */
+export type CircleAnalysis = {
+  domain: CircleDomain;
+  largestEmptyCircle: Circle | null;
+  enclosingCircle: Circle | null;
+  calipers: CaliperMeasures | null;
 };
 
 /**
@@ -26,22 +62,171 @@ export type TriangleIndex = [number, number, number];
  * Available visualization modes for the 2D graph toolkit
  * - voronoi: Animated Voronoi diagram with colored cells
  * - voronoi-bruteforce: Discrete Voronoi diagram using brute force algorithm
+ * - voronoi-multiplicative: Discrete Voronoi with distance divided by weight
+ * - voronoi-additive: Discrete Apollonius diagram (distance minus weight)
+ * - power: Power diagram (Laguerre–Voronoi) of weighted points
+ * - order-k: Order-k Voronoi diagram (regions sharing the same k nearest sites)
+ * - farthest: Farthest-point Voronoi diagram (cells of convex hull vertices)
+ * - hull: Convex hull and convex layers (onion peeling)
+ * - stipple: Weighted Voronoi stippling of the loaded image
  * - alpha-shape: Alpha shape with boundary edges only
  * - alpha-complex: Full alpha complex with all triangles
- * - nn-crust: Nearest neighbor crust edges
+ * - alpha-adaptive: Conformal alpha complex, α scaled by local feature size
+ * - concave-hull: Single simple polygon (χ-shape or k-NN concave hull)
+ * - nn-crust: NN-crust curve reconstruction (Dey–Kumar)
+ * - crust: Crust curve reconstruction (Amenta–Bern–Eppstein)
+ * - beta-skeleton: β-skeleton (lune- or circle-based), from complete graph to empty
  * - gabriel: Gabriel graph (requires circumcircle test)
  * - rng: Relative neighborhood graph
  * - mst: Minimum spanning tree (Arbre de Recouvrement Minimal)
+ * - cdt: Constrained Delaunay triangulation of user-drawn segments
+ * - mesh: Quality mesh by Delaunay refinement (Ruppert / Chew)
  */
 export type GraphMode =
   | "voronoi"
   | "voronoi-bruteforce"
+  | "voronoi-multiplicative"
+  | "voronoi-additive"
+  | "power"
+  | "order-k"
+  | "farthest"
+  | "hull"
+  | "stipple"
   | "alpha-shape"
   | "alpha-complex"
+  | "alpha-adaptive"
+  | "concave-hull"
   | "nn-crust"
+  | "crust"
+  | "beta-skeleton"
   | "gabriel"
   | "rng"
-  | "mst";
+  | "mst"
+  | "cdt"
+  | "mesh";
+
+/**
+ * Forbidden-region definition of the β-skeleton
+ * - lune: intersection of two disks (β=1 Gabriel, β=2 RNG)
+ * - circle: union of two disks through both endpoints when β ≥ 1
+ */
+export type BetaSkeletonVariant = "lune" | "circle";
+
+/**
+ * Distance metric of the discrete (brute-force) Voronoi mode
+ * - euclidean: L2 norm
+ * - manhattan: L1 norm
+ * - chebyshev: L∞ norm
+ * - minkowski: Lp norm with a user-defined exponent p
+ * - anisotropic: |A·d| for a user-defined 2×2 matrix A (elliptical unit ball)
+ */
+export type DistanceMetricKind =
+  | "euclidean"
+  | "manhattan"
+  | "chebyshev"
+  | "minkowski"
+  | "anisotropic";
+
+export type DistanceMetric = {
+  kind: DistanceMetricKind;
+  /** Exponent of the Minkowski metric */
+  p: number;
+  /** Row-major matrix [a, b, c, d] of the anisotropic metric */
+  matrix: [number, number, number, number];
+};
+
+/**
+ * Label map backend of the discrete Voronoi modes
+ * - bruteforce: exact reference, O(W·H·N)
+ * - jfa: jump flooding approximation, O(W·H·log max(W, H))
+ */
+export type RasterBackend = "bruteforce" | "jfa";
+
+/**
+ * Distance field layer of the brute-force Voronoi mode
+ * - none: hidden
+ * - nearest: distance to the nearest site (F1)
+ * - gap: second-nearest minus nearest distance (F2 − F1), zero on Voronoi edges
+ */
+export type DistanceFieldKind = "none" | "nearest" | "gap";
+
+/**
+ * Domain boundary of the refinement mesh
+ * - hull: convex hull of the points
+ * - alpha: alpha-shape outline at the current α
+ */
+export type MeshBoundary = "hull" | "alpha";
+
+/**
+ * Local feature size estimate of the adaptive alpha mode
+ * - knn: mean distance to the k nearest neighbours
+ * - poles: distance to the pole (farthest Voronoi vertex of the cell)
+ */
+export type LocalScaleEstimator = "knn" | "poles";
+
+/**
+ * Algorithm of the concave hull mode
+ * - chi: χ-shape, Delaunay erosion from the convex hull (Duckham et al.)
+ * - knn: k-nearest-neighbour gift wrapping (Moreira–Santos)
+ */
+export type ConcaveHullAlgorithm = "chi" | "knn";
+
+/**
+ * Automatic alpha selection strategies
+ * - connected: smallest α joining every point into one component
+ * - hole-free: smallest α after which the shape never has a hole
+ * - components: smallest α leaving at most a target number of components
+ */
+export type AlphaStrategy = "connected" | "hole-free" | "components";
+
+/**
+ * Per-pixel distance field, in metric units of the current distance
+ */
+export type DistanceField = {
+  kind: Exclude<DistanceFieldKind, "none">;
+  width: number;
+  height: number;
+  /** Row-major values (width × height) */
+  values: Float32Array;
+  /** Largest finite value, used for normalization */
+  max: number;
+};
+
+/**
+ * Mode-specific parameters controlled from the UI
+ */
+export type ModeParameters = {
+  /** β value of the β-skeleton, may be Infinity */
+  beta: number;
+  /** Forbidden-region definition of the β-skeleton */
+  betaVariant: BetaSkeletonVariant;
+  /** Order of the order-k Voronoi diagram */
+  orderK: number;
+  /** Metric of the brute-force Voronoi mode */
+  metric: DistanceMetric;
+  /** Label map backend of the discrete Voronoi modes */
+  rasterBackend: RasterBackend;
+  /** Distance field layer of the brute-force Voronoi mode */
+  distanceField: DistanceFieldKind;
+  /** λ threshold of the medial axis overlay, null when hidden */
+  medialAxisLambda: number | null;
+  /** Domain of the circle analysis panel, null when hidden */
+  circleDomain: CircleDomain | null;
+  /** Constraint segments of the CDT mode, as pairs of point ids */
+  constraints: Array<[number, number]>;
+  /** Domain boundary of the refinement mesh */
+  meshBoundary: MeshBoundary;
+  /** Local feature size estimate of the adaptive alpha mode */
+  localScale: LocalScaleEstimator;
+  /** Multiplier of the local feature sizes (adaptive alpha mode) */
+  alphaMultiplier: number;
+  /** Algorithm of the concave hull mode */
+  concaveAlgorithm: ConcaveHullAlgorithm;
+  /** Normalized edge length threshold of the χ-shape, in [0, 1] */
+  chiLambda: number;
+  /** Initial number of neighbours of the k-NN concave hull */
+  concaveK: number;
+};
 
 /**
  * Configuration for a graph mode option in the UI
@@ -53,6 +238,17 @@ export type GraphModeOption = {
   disabled?: boolean;
 };
 
+/**
+ * Result from NN-crust reconstruction
+ * Edges are split by kind so the renderer can style them differently
+ */
+export type NNCrustData = {
+  /** Edges from a point to its nearest neighbor */
+  firstNeighborEdges: EdgeIndex[];
+  /** Shortest edges pointing away from the nearest neighbor (angle ≥ 90°) */
+  halfNeighborEdges: EdgeIndex[];
+};
+
 /**
  * Computed geometric structures for rendering
  * Contains all derived data needed to draw the visualization
@@ -64,18 +260,299 @@ export type DerivedStructures = {
   graphEdges: EdgeIndex[];
   /** Alpha complex triangles (only populated in alpha-complex mode) */
   alphaTriangles: TriangleIndex[];
+  /** Points of the alpha complex without any edge (alpha modes) */
+  isolatedVertices?: number[];
+  /** Components of the alpha complex with their polygons (alpha modes) */
+  alphaComponents?: AlphaShapeComponent[];
+  /** Simplices of the alpha complex, whatever the display (alpha modes) */
+  alphaComplex?: AlphaData;
+  /** Every Delaunay triangle with its local α (adaptive alpha mode) */
+  adaptiveTriangles?: AdaptiveAlphaTriangle[];
+  /** Concave hull polygon (concave-hull mode) */
+  concaveHull?: ConcaveHull;
+  /** NN-crust edge classification (only populated in nn-crust mode) */
+  nnCrust?: NNCrustData;
+  /** Nearest-site label per pixel, row-major (only populated in raster modes) */
+  rasterLabels?: Int32Array;
+  /** Pixel count per site (only populated in raster modes) */
+  rasterCellSizes?: Int32Array;
+  /** Order-k regions (only populated in order-k mode) */
+  orderKRegions?: OrderKRegion[];
+  /** Convex hull vertex indices, counterclockwise (farthest and hull modes) */
+  hullIndices?: number[];
+  /** Smallest enclosing circle (farthest mode) */
+  enclosingCircle?: Circle | null;
+  /** Voronoi vertices added to the samples (only populated in crust mode) */
+  voronoiVertices?: Array<[number, number]>;
+  /** Distance heat map (brute-force mode with the distance layer enabled) */
+  distanceField?: DistanceField;
+  /** Approximate medial axis (alpha modes with the overlay enabled) */
+  medialAxis?: MedialAxis;
+  /** Convex layers from the hull inwards (hull mode) */
+  convexLayers?: number[][];
+  /** Circle and caliper queries (circle analysis panel enabled) */
+  circleAnalysis?: CircleAnalysis;
+  /** Constrained triangulation (cdt mode) */
+  triangulation?: ConstrainedTriangulation;
+  /** Constraint edges of the triangulation, as point indices (cdt mode) */
+  constraintEdges?: EdgeIndex[];
+  /** Triangles violating the empty-circle property (cdt mode) */
+  nonDelaunayTriangles?: number[];
+};
+
+/**
+ * Delaunay triangle of the adaptive alpha mode
+ * The triangle is kept when its circumradius does not exceed its local α
+ */
+export type AdaptiveAlphaTriangle = {
+  triangle: TriangleIndex;
+  circumradius: number;
+  /** Multiplier times the mean local feature size of the three vertices */
+  alpha: number;
+};
+
+/**
+ * Concave hull: a simple polygon through some points enclosing all of them
+ */
+export type ConcaveHull = {
+  /** Polygon vertex indices in boundary order (empty when degenerate) */
+  ring: number[];
+  area: number;
+  perimeter: number;
+  /** Number of neighbours that closed the k-NN hull, null for the χ-shape */
+  k: number | null;
+};
+
+/**
+ * Region of an order-k Voronoi diagram
+ */
+export type OrderKRegion = {
+  /** Sorted indices of the k nearest sites shared by the region */
+  sites: number[];
+  /** Convex region polygon clipped to the canvas */
+  polygon: Array<[number, number]>;
+};
+
+/**
+ * Result from crust reconstruction
+ */
+export type CrustData = {
+  /** Delaunay edges of the augmented set joining two original samples */
+  edges: EdgeIndex[];
+  /** Voronoi vertices inserted before re-triangulating */
+  voronoiVertices: Array<[number, number]>;
+};
+
+/**
+ * Optional render layers toggled from the UI
+ */
+export type SceneOverlays = {
+  /** Show the Voronoi vertices added by the crust reconstruction */
+  showVoronoiVertices: boolean;
+  /** Stipple drawing generated from the image (stipple mode) */
+  stipples: Stipple[];
+  /** Draw isodistance lines over the distance field */
+  showIsolines: boolean;
+  /** Medial axis vertex whose inscribed disk is shown (hover) */
+  highlightedMedialVertex: number | null;
+  /** Number of convex layers drawn in hull mode (peeling depth) */
+  hullLayerCount: number;
+  /** Constraint segment being drawn (shift+drag), from and to positions */
+  constraintPreview: { from: [number, number]; to: [number, number] } | null;
+  /** Refinement mesh being built (mesh mode), null before the first step */
+  mesh: RefinementMesh | null;
+  /** Persistence interval selected in the barcode (alpha modes) */
+  highlightedInterval: PersistenceInterval | null;
+  /** Voronoi cells cut by the α-disks with the dual complex (alpha modes) */
+  showUnionOfBalls: boolean;
 };
 
 /**
  * Result from alpha-shape/complex computation
  */
 export type AlphaData = {
-  /** Triangles satisfying the alpha constraint */
+  /** Triangles of the alpha complex (circumradius ≤ α) */
   triangles: TriangleIndex[];
-  /** All edges in the alpha complex */
+  /** Filtration value of each triangle (same order) */
+  triangleValues: number[];
+  /** All edges in the alpha complex, with or without a triangle */
   allEdges: EdgeIndex[];
-  /** Boundary edges (alpha-shape) */
+  /** Filtration value of each edge (same order) */
+  edgeValues: number[];
+  /** Edges bounding the triangles, in exactly one complex triangle */
   boundaryEdges: EdgeIndex[];
+  /** Edges of the complex in no complex triangle */
+  danglingEdges: EdgeIndex[];
+  /** Points of the complex in no complex edge */
+  isolatedVertices: number[];
+};
+
+/**
+ * Polygon of the alpha-shape as point index loops (last vertex not repeated)
+ * Rings follow the GeoJSON right-hand rule on the raw canvas coordinates:
+ * outer ring counterclockwise, holes clockwise (mirrored on screen, where
+ * y points down)
+ */
+export type AlphaShapePolygon = {
+  outer: number[];
+  holes: number[][];
+};
+
+/**
+ * Connected component of the alpha complex with its shape metrics
+ */
+export type AlphaShapeComponent = {
+  /** Polygons covering the triangles (several when pinched at a vertex) */
+  polygons: AlphaShapePolygon[];
+  /** Points of the component */
+  vertices: number[];
+  area: number;
+  /** Total length of the polygon rings */
+  perimeter: number;
+  /** Betti numbers (β0 = 1, β1 = independent cycles, from the Euler characteristic) */
+  betti: [number, number];
+};
+
+/**
+ * Delaunay edge of the alpha filtration
+ */
+export type FiltrationEdge = {
+  edge: EdgeIndex;
+  /** Radius of the smallest empty circle through both endpoints */
+  value: number;
+  /** Adjacent triangles (index in the filtration triangles), −1 outside */
+  faces: [number, number];
+};
+
+/**
+ * Delaunay triangle of the alpha filtration
+ */
+export type FiltrationTriangle = {
+  triangle: TriangleIndex;
+  /** Circumradius */
+  value: number;
+};
+
+/**
+ * Alpha filtration of a point set: every Delaunay simplex with the radius at
+ * which it enters the alpha complex (vertices all enter at 0)
+ */
+export type AlphaFiltration = {
+  edges: FiltrationEdge[];
+  triangles: FiltrationTriangle[];
+};
+
+/**
+ * Persistence interval of the alpha filtration
+ * - dimension 0: connected component, born at 0
+ * - dimension 1: hole, born when its last boundary edge appears
+ */
+export type PersistenceInterval = {
+  dimension: 0 | 1;
+  birth: number;
+  /** Death radius, Infinity for the component that never dies */
+  death: number;
+  /** Edge merging the component or creating the hole (null if essential) */
+  edge: EdgeIndex | null;
+  /** Points of the component when it dies (dimension 0) */
+  vertices: number[];
+  /** Triangles filling the hole when it is born (dimension 1) */
+  triangles: TriangleIndex[];
+};
+
+/**
+ * Vertex of the approximate medial axis (a Voronoi vertex inside the shape)
+ */
+export type MedialAxisVertex = {
+  x: number;
+  y: number;
+  /** Radius of the inscribed (empty) disk centred at the vertex */
+  radius: number;
+  /** Radius of the smallest circle enclosing its nearest samples */
+  lambda: number;
+};
+
+/**
+ * Approximate λ-medial axis of the alpha-shape
+ */
+export type MedialAxis = {
+  vertices: MedialAxisVertex[];
+  /** Pairs of vertex indices */
+  edges: Array<[number, number]>;
+};
+
+/**
+ * Constrained Delaunay triangulation in the d3-delaunay flat layout
+ */
+export type ConstrainedTriangulation = {
+  /** Vertex indices, three per triangle */
+  triangles: Uint32Array;
+  /** Twin halfedge of each halfedge (−1 on the hull) */
+  halfedges: Int32Array;
+  /** 1 for halfedges lying on a constraint segment */
+  constrained: Uint8Array;
+  /** Segments that could not be inserted (crossing another constraint) */
+  rejected: EdgeIndex[];
+};
+
+/**
+ * State of a Delaunay refinement run
+ * The first inputCount vertices are the input points, the others are
+ * Steiner points (segment midpoints and circumcentres)
+ */
+export type RefinementMesh = {
+  vertices: Point[];
+  inputCount: number;
+  /** Boundary segments, split as refinement goes */
+  segments: EdgeIndex[];
+  /** Constrained Delaunay triangulation of the vertices and segments */
+  triangulation: ConstrainedTriangulation;
+  /** 1 for triangles inside the domain */
+  inside: Uint8Array;
+  /** Number of Steiner points inserted */
+  steps: number;
+  /** True once every domain triangle meets the quality bounds */
+  done: boolean;
+};
+
+/**
+ * Scalar density sampled at canvas resolution (row-major)
+ */
+export type DensityMap = {
+  width: number;
+  height: number;
+  values: Float32Array;
+};
+
+/**
+ * Result of one Lloyd relaxation iteration
+ */
+export type LloydStepResult = {
+  /** Sites moved to their cell centroids (pinned sites unchanged) */
+  points: Point[];
+  /** Largest displacement of a moved site, in pixels */
+  maxDisplacement: number;
+  /** CVT energy of the sites before the move */
+  energy: number;
+};
+
+/**
+ * Dot of a stipple drawing
+ */
+export type Stipple = {
+  x: number;
+  y: number;
+  /** Dot radius in pixels, grows with the local darkness */
+  radius: number;
+};
+
+/**
+ * Result of one weighted Lloyd iteration on stipples
+ */
+export type StippleStepResult = {
+  stipples: Stipple[];
+  /** Largest stipple displacement, in pixels */
+  maxDisplacement: number;
 };
 
 /**
@@ -97,6 +574,23 @@ export type DragState = {
   offsetY: number;
 };
 
+/**
+ * Weight editing drag state (modifier+drag on a point)
+ */
+export type WeightDragState = {
+  pointerId: number;
+  index: number;
+};
+
+/**
+ * Constraint segment drawing state (shift+drag from a point)
+ */
+export type ConstraintDragState = {
+  pointerId: number;
+  /** Id of the start point */
+  fromId: number;
+};
+
 /**
  * Ghost point drag state
  */